@@ -0,0 +1,24 @@
+// contracts/MockAggregator.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// The price functions of Chainlink's AggregatorV3Interface
+contract MockAggregator {
+    uint8 public decimals;
+    int256 private answer;
+    uint256 private updatedAt;
+
+    constructor(uint8 _decimals, int256 _answer) {
+        decimals = _decimals;
+        setAnswer(_answer, block.timestamp);
+    }
+
+    function setAnswer(int256 _answer, uint256 _updatedAt) public {
+        answer = _answer;
+        updatedAt = _updatedAt;
+    }
+
+    function latestRoundData() external view returns (uint80, int256, uint256, uint256, uint80) {
+        return (1, answer, updatedAt, updatedAt, 1);
+    }
+}
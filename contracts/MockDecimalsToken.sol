@@ -0,0 +1,18 @@
+// contracts/MockDecimalsToken.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC20} from "lib/openzeppelin-contracts/contracts/token/ERC20/ERC20.sol";
+
+contract MockDecimalsToken is ERC20 {
+    uint8 private immutable _decimals;
+
+    constructor(uint8 decimals_) ERC20("MockDecimalsToken", "MDEC") {
+        _decimals = decimals_;
+        _mint(msg.sender, 1000 * 10 ** decimals_);
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+}
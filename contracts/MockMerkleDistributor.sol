@@ -0,0 +1,11 @@
+// contracts/MockMerkleDistributor.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract MockMerkleDistributor {
+    bytes32 public merkleRoot;
+
+    constructor(bytes32 merkleRoot_) {
+        merkleRoot = merkleRoot_;
+    }
+}
@@ -0,0 +1,20 @@
+// contracts/MockPermit2.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// The allowance functions of Permit2's AllowanceTransfer
+contract MockPermit2 {
+    struct PackedAllowance {
+        uint160 amount;
+        uint48 expiration;
+        uint48 nonce;
+    }
+
+    mapping(address => mapping(address => mapping(address => PackedAllowance))) public allowance;
+
+    function approve(address token, address spender, uint160 amount, uint48 expiration) external {
+        PackedAllowance storage allowed = allowance[msg.sender][token][spender];
+        allowed.amount = amount;
+        allowed.expiration = expiration;
+    }
+}
@@ -0,0 +1,34 @@
+// contracts/MockProxies.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {BeaconProxy} from "lib/openzeppelin-contracts/contracts/proxy/beacon/BeaconProxy.sol";
+import {UpgradeableBeacon} from "lib/openzeppelin-contracts/contracts/proxy/beacon/UpgradeableBeacon.sol";
+import {ERC1967Proxy} from "lib/openzeppelin-contracts/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+contract MockImplementation {
+    function initialize() external {}
+}
+
+contract MockERC1967Proxy is ERC1967Proxy {
+    constructor(address implementation)
+        ERC1967Proxy(implementation, abi.encodeCall(MockImplementation.initialize, ()))
+    {}
+}
+
+contract MockBeacon is UpgradeableBeacon {
+    constructor(address implementation) UpgradeableBeacon(implementation, msg.sender) {}
+}
+
+contract MockBeaconProxy is BeaconProxy {
+    constructor(address beacon) BeaconProxy(beacon, abi.encodeCall(MockImplementation.initialize, ())) {}
+}
+
+// Stores the implementation in the EIP-1822 PROXIABLE slot
+contract MockEIP1822Proxy {
+    constructor(address implementation) {
+        assembly {
+            sstore(0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7, implementation)
+        }
+    }
+}
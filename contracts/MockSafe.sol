@@ -0,0 +1,31 @@
+// contracts/MockSafe.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// The owner functions of Safe's OwnerManager
+contract MockSafe {
+    address[] private owners;
+    uint256 private threshold;
+
+    constructor(address[] memory _owners, uint256 _threshold) {
+        owners = _owners;
+        threshold = _threshold;
+    }
+
+    function getOwners() external view returns (address[] memory) {
+        return owners;
+    }
+
+    function getThreshold() external view returns (uint256) {
+        return threshold;
+    }
+
+    function isOwner(address owner) external view returns (bool) {
+        for (uint256 i = 0; i < owners.length; i++) {
+            if (owners[i] == owner) {
+                return true;
+            }
+        }
+        return false;
+    }
+}
@@ -0,0 +1,11 @@
+// contracts/MockVault.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC20} from "lib/openzeppelin-contracts/contracts/token/ERC20/IERC20.sol";
+import {ERC20} from "lib/openzeppelin-contracts/contracts/token/ERC20/ERC20.sol";
+import {ERC4626} from "lib/openzeppelin-contracts/contracts/token/ERC20/extensions/ERC4626.sol";
+
+contract MockVault is ERC4626 {
+    constructor(IERC20 asset_) ERC20("MockVault", "vMOCK") ERC4626(asset_) {}
+}
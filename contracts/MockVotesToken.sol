@@ -0,0 +1,17 @@
+// contracts/MockVotesToken.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC20} from "lib/openzeppelin-contracts/contracts/token/ERC20/ERC20.sol";
+import {ERC20Votes} from "lib/openzeppelin-contracts/contracts/token/ERC20/extensions/ERC20Votes.sol";
+import {EIP712} from "lib/openzeppelin-contracts/contracts/utils/cryptography/EIP712.sol";
+
+contract MockVotesToken is ERC20, EIP712, ERC20Votes {
+    constructor() ERC20("MockVotesToken", "VOTE") EIP712("MockVotesToken", "1") {
+        _mint(msg.sender, 1000 * 1e18);
+    }
+
+    function _update(address from, address to, uint256 value) internal override(ERC20, ERC20Votes) {
+        super._update(from, to, value);
+    }
+}
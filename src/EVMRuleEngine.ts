@@ -1,18 +1,61 @@
 // src/EVMRuleEngine.ts
+import { type Block, type BlockTag } from 'ethers'
 import { z } from 'zod'
-import { type BuiltRule, type EngineConfig, type EvaluateResult, type Networks, type RuleDefinition } from './types.js'
+import { ReadCache, type CacheStats } from './cache.js'
+import { validateRateLimit } from './limiter.js'
+import { isMulticallDeployed, MULTICALL3_ADDRESS, MulticallBatcher, type CallRequest } from './multicall.js'
+import { sendRequest } from './reader.js'
+import { validateRetryConfig } from './retry.js'
+import { estimateRuleCost } from './rules.js'
+import { type BuiltRule, type EngineConfig, type EngineRetryConfig, type EvaluateManyOptions, type EvaluateManyResult, type EvaluateManySummary, type EvaluateOptions, type EvaluateResult, type EvaluationContext, type Network, type Networks, type RuleDefinition, type RetryConfig, type RuleResult, type ScoreResult, type ScoringConfig } from './types.js'
+import { getDefinitionChainIds, getLatestBlockNumber, runRule } from './utils.js'
 import { builtRuleSchema, ruleDefinitionSchema } from './validator.js'
 
+// Addresses evaluated at once by evaluateMany
+const DEFAULT_CONCURRENCY = 10
+
+/**
+ * Checks if any result, including nested results, has an error.
+ */
+function hasRuleError (results: RuleResult[]): boolean {
+  return results.some((res) => res.error !== undefined || hasRuleError(res.ruleResults ?? []))
+}
+
 export class EVMRuleEngine {
   private readonly rules: BuiltRule[] = []
   private readonly networks: Networks = []
+  private readonly scoring?: ScoringConfig
+  private readonly shortCircuit: boolean
+  private readonly multicall: boolean
+  // Whether Multicall3 is deployed, checked once per chain
+  private readonly multicallDeployed = new Map<string, Promise<boolean>>()
+  private readonly cache?: ReadCache
+  // Retry policy of each network, keyed by chainId
+  private readonly retry?: Record<string, RetryConfig>
 
   constructor (config: EngineConfig, rules: BuiltRule | BuiltRule[] = []) {
     if (config.networks === undefined || config.networks.length === 0) {
       throw new Error('No networks configured')
     }
 
+    if (config.scoring !== undefined && !Number.isFinite(config.scoring.threshold)) {
+      throw new Error('Scoring threshold must be a number')
+    }
+
+    for (const network of config.networks) {
+      validateRateLimit(network)
+    }
+
     this.networks = config.networks
+    this.scoring = config.scoring
+    this.shortCircuit = config.shortCircuit ?? false
+    this.multicall = config.multicall ?? false
+    if (config.cache !== undefined) {
+      this.cache = new ReadCache(config.cache)
+    }
+    if (config.retry !== undefined) {
+      this.retry = this.resolveRetryConfig(config.retry)
+    }
 
     if (Array.isArray(rules)) {
       this.addRules(rules)
@@ -46,30 +89,330 @@ export class EVMRuleEngine {
   /**
    * Evaluate all rules against the given config + address.
    * If ANY rule fails, the overall result is false.
+   * In scoring mode the result is instead decided by the score threshold.
+   * Every chain is read at one block, pinned when the evaluation starts.
+   * JSON-RPC providers are asked for the latest block directly, other
+   * providers may pin a block up to their cache timeout old.
+   * Pass `blockTag` to evaluate at a historical block, `signature` to
+   * prove ownership of the address to signedMessage rules, and
+   * `merkleProofs` for merkleMembership rules.
+   */
+  public async evaluate (address: string, options: EvaluateOptions = {}): Promise<EvaluateResult> {
+    const context = await this.createContext(options)
+    return this.evaluateWithContext(address, context)
+  }
+
+  /**
+   * Evaluate all rules against many addresses, yielding a result per address
+   * in the order given. At most `concurrency` addresses are evaluated at once,
+   * the next one starting as soon as any of them is done. The first `offset`
+   * addresses are skipped so an interrupted run can be resumed. The whole run reads one block per chain, and reads that do not
+   * depend on the address, e.g. `contractBalance`, are sent once.
+   *
+   * Once every address has been evaluated the summary of the results is
+   * passed to `onSummary` and returned by the generator.
    */
-  public async evaluate (address: string): Promise<EvaluateResult> {
-    const promises = this.rules.map(async ({ rule }, index) => {
-      return (async () => {
-        try {
-          const result = await rule(address)
-          return result
-        } catch (err: any) {
-          return {
-            name: `Rule #${index}`,
-            success: false,
-            error: err.message
-          }
+  public async * evaluateMany (addresses: Iterable<string> | AsyncIterable<string>, options: EvaluateManyOptions = {}): AsyncGenerator<EvaluateManyResult, EvaluateManySummary, undefined> {
+    const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY
+    const offset = options.offset ?? 0
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error('`concurrency` must be a positive integer')
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error('`offset` must be a non-negative integer')
+    }
+
+    const context = await this.createContext(options)
+    // Reads are pinned to a block, so they can be kept for the whole run
+    context.cache = context.cache ?? new ReadCache({ ttl: Infinity })
+
+    const summary: EvaluateManySummary = { total: 0, passed: 0, failed: 0, errored: 0 }
+    // A slot is freed as soon as its address is evaluated. Results are held by
+    // their position in the run until every earlier one has been yielded, so a
+    // slow address delays the output but not the other evaluations
+    const running = new Set<Promise<void>>()
+    const done = new Map<number, EvaluateManyResult>()
+    let started = 0
+    let yielded = 0
+
+    const start = (address: string, index: number): void => {
+      const position = started++
+      const evaluation = this.evaluateAddress(address, index, context).then((result) => {
+        done.set(position, result)
+        running.delete(evaluation)
+      })
+      running.add(evaluation)
+    }
+
+    const takeReady = (): EvaluateManyResult[] => {
+      const ready: EvaluateManyResult[] = []
+      for (let result = done.get(yielded); result !== undefined; result = done.get(yielded)) {
+        done.delete(yielded++)
+        summary.total++
+        if (result.result) {
+          summary.passed++
+        } else if (result.error !== undefined || hasRuleError(result.ruleResults)) {
+          summary.errored++
+        } else {
+          summary.failed++
         }
-      })()
-    })
+        ready.push(result)
+      }
+      return ready
+    }
+
+    let index = 0
+    for await (const address of addresses) {
+      if (index >= offset) {
+        while (running.size >= concurrency) {
+          await Promise.race(running)
+          yield * takeReady()
+        }
+        start(address, index)
+      }
+      index++
+    }
+
+    while (running.size > 0) {
+      await Promise.race(running)
+      yield * takeReady()
+    }
+
+    options.onSummary?.(summary)
+    return summary
+  }
 
-    const results = await Promise.all(promises)
+  private async evaluateAddress (address: string, index: number, context: EvaluationContext): Promise<EvaluateManyResult> {
+    try {
+      return { address, index, ...await this.evaluateWithContext(address, context) }
+    } catch (err: any) {
+      return { address, index, ruleResults: [], result: false, blockNumbers: context.blockNumbers ?? {}, error: err.message }
+    }
+  }
+
+  private async evaluateWithContext (address: string, context: EvaluationContext): Promise<EvaluateResult> {
+    const blockNumbers = context.blockNumbers ?? {}
+    const results = this.shortCircuit
+      ? await this.evaluateSequentially(address, context)
+      : await Promise.all(this.rules.map(async (builtRule, index) => runRule(builtRule, index, address, context)))
+
+    if (this.scoring !== undefined) {
+      const score = this.calculateScore(results, this.scoring)
+      return {
+        ruleResults: results,
+        result: score.passed,
+        score,
+        blockNumbers
+      }
+    }
 
     const success = results.every((res) => res.success)
 
     return {
       ruleResults: results,
-      result: success
+      result: success,
+      blockNumbers
+    }
+  }
+
+  /**
+   * Hit and miss counts of the read cache, `undefined` when caching is off.
+   */
+  public getCacheStats (): CacheStats | undefined {
+    return this.cache?.getStats()
+  }
+
+  /**
+   * Create the state shared by the rules of one evaluation.
+   */
+  private async createContext (options: EvaluateOptions): Promise<EvaluationContext> {
+    const context: EvaluationContext = {
+      blockNumbers: await this.pinBlockNumbers(options),
+      cache: this.cache,
+      retry: this.retry,
+      signature: options.signature,
+      merkleProofs: options.merkleProofs
+    }
+
+    if (this.multicall) {
+      context.multicall = {}
+      for (const network of this.networks) {
+        const address = network.multicallAddress ?? MULTICALL3_ADDRESS
+        const send = async (request: CallRequest): Promise<string> => sendRequest(this.networks, network.chainId, context, async (provider) => provider.call(request))
+        context.multicall[network.chainId] = new MulticallBatcher(network.provider, address, async () => this.isMulticallDeployed(network, address), send)
+      }
+    }
+
+    return context
+  }
+
+  /**
+   * Resolve the block number to read each chain used by the rules at, so
+   * every read in the evaluation sees the same state. If the latest block of
+   * a chain cannot be fetched the chain is left unpinned, and its rules
+   * report their own errors.
+   */
+  private async pinBlockNumbers (options: EvaluateOptions): Promise<Record<string, number>> {
+    const blockTags = options.blockTag === undefined ? {} : this.resolveBlockTags(options.blockTag)
+    const chainIds = [...new Set(this.rules.flatMap((r) => getDefinitionChainIds(r.definition)))]
+
+    const blockNumbers: Record<string, number> = {}
+    await Promise.all(chainIds.map(async (chainId) => {
+      const blockNumber = await this.resolveBlockNumber(chainId, blockTags[chainId])
+      if (blockNumber !== undefined) {
+        blockNumbers[chainId] = blockNumber
+      }
+    }))
+
+    return blockNumbers
+  }
+
+  private async resolveBlockNumber (chainId: string, blockTag?: BlockTag): Promise<number | undefined> {
+    if ((typeof blockTag === 'number' || typeof blockTag === 'bigint') && blockTag >= 0) {
+      return Number(blockTag)
+    }
+
+    const getBlock = async (tag: BlockTag): Promise<Block | null> => {
+      return sendRequest(this.networks, chainId, { retry: this.retry }, async (provider) => provider.getBlock(tag))
+    }
+
+    if (blockTag === undefined) {
+      try {
+        const fetchLatest = async (): Promise<string> => {
+          return String(await sendRequest(this.networks, chainId, { retry: this.retry }, getLatestBlockNumber))
+        }
+        const latest = this.cache !== undefined && !this.cache.invalidateOnNewBlock
+          ? await this.cache.read(chainId, 'blockNumber', [], undefined, fetchLatest)
+          : await fetchLatest()
+        return Number(latest)
+      } catch {
+        return undefined
+      }
+    }
+
+    const block = await getBlock(blockTag)
+    if (block === null) {
+      throw new Error(`invalid blockTag - block ${blockTag} not found on network ${chainId}`)
+    }
+    return block.number
+  }
+
+  /**
+   * Expand the `blockTag` evaluate option into a tag per chainId.
+   */
+  private resolveBlockTags (blockTag: BlockTag | Record<string, BlockTag>): Record<string, BlockTag> {
+    if (typeof blockTag !== 'object') {
+      return Object.fromEntries(this.networks.map((network) => [network.chainId, blockTag]))
+    }
+
+    for (const chainId of Object.keys(blockTag)) {
+      if (!this.hasNetwork(chainId)) {
+        throw new Error(`invalid blockTag - network ${chainId} not configured`)
+      }
+    }
+    return { ...blockTag }
+  }
+
+  /**
+   * Expand the retry config into a policy per network, checking every
+   * network it overrides is configured.
+   */
+  private resolveRetryConfig (config: EngineRetryConfig): Record<string, RetryConfig> {
+    const { networks = {}, ...defaults } = config
+    validateRetryConfig(defaults)
+
+    for (const [chainId, override] of Object.entries(networks)) {
+      if (!this.hasNetwork(chainId)) {
+        throw new Error(`invalid retry - network ${chainId} not configured`)
+      }
+      validateRetryConfig(override)
+    }
+
+    return Object.fromEntries(this.networks.map((network) => [network.chainId, { ...defaults, ...networks[network.chainId] }]))
+  }
+
+  private async isMulticallDeployed (network: Network, address: string): Promise<boolean> {
+    let deployed = this.multicallDeployed.get(network.chainId)
+    if (deployed === undefined) {
+      deployed = sendRequest(this.networks, network.chainId, { retry: this.retry }, async (provider) => isMulticallDeployed(provider, address))
+      this.multicallDeployed.set(network.chainId, deployed)
+      // Check again next time if the lookup itself failed
+      deployed.catch(() => this.multicallDeployed.delete(network.chainId))
+    }
+    return deployed
+  }
+
+  /**
+   * Evaluate rules one at a time in priority order, stopping once the result
+   * is decided. Rules that were not reached are marked as skipped, named
+   * after their type and chain since they never produced a name of their own.
+   */
+  private async evaluateSequentially (address: string, context: EvaluationContext): Promise<RuleResult[]> {
+    const results: RuleResult[] = this.rules.map(({ definition }) => ({
+      name: definition.chainId === undefined ? definition.type : `${definition.type} (chainId: ${definition.chainId})`,
+      success: false,
+      skipped: true
+    }))
+
+    let total = 0
+    let remaining = this.rules.reduce((sum, r) => sum + (r.definition.weight ?? 1), 0)
+
+    for (const index of this.getEvaluationOrder()) {
+      const { definition } = this.rules[index]
+      const result = await runRule(this.rules[index], index, address, context)
+      results[index] = result
+
+      if (this.scoring === undefined) {
+        if (!result.success) {
+          break
+        }
+        continue
+      }
+
+      const weight = definition.weight ?? 1
+      remaining -= weight
+      if (result.success) {
+        total += weight
+      }
+      if (total >= this.scoring.threshold || total + remaining < this.scoring.threshold) {
+        break
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Rule indexes sorted by priority, falling back to the estimated cost of
+   * the rule type. Ties keep the order the rules were added in.
+   */
+  private getEvaluationOrder (): number[] {
+    const keys = this.rules.map((r) => r.definition.priority ?? estimateRuleCost(r.definition))
+    return this.rules
+      .map((_, index) => index)
+      .sort((a, b) => keys[a] - keys[b])
+  }
+
+  /**
+   * Sum the weights of the passing rules. Rules without a weight count as 1.
+   */
+  private calculateScore (results: RuleResult[], scoring: ScoringConfig): ScoreResult {
+    let total = 0
+    let max = 0
+
+    results.forEach((res, index) => {
+      const weight = this.rules[index].definition.weight ?? 1
+      max += weight
+      if (res.success) {
+        total += weight
+      }
+    })
+
+    return {
+      total,
+      max,
+      threshold: scoring.threshold,
+      passed: total >= scoring.threshold
     }
   }
 
@@ -78,12 +421,19 @@ export class EVMRuleEngine {
    */
   public getRuleDefinitions (): RuleDefinition[] {
     return this.rules.map((br) => {
-      const { type, params, chainId } = br.definition
-      return {
+      const { type, params, chainId, weight, priority } = br.definition
+      const definition: RuleDefinition = {
         type,
         chainId,
         params
       }
+      if (weight !== undefined) {
+        definition.weight = weight
+      }
+      if (priority !== undefined) {
+        definition.priority = priority
+      }
+      return definition
     })
   }
 
@@ -104,6 +454,12 @@ export class EVMRuleEngine {
     }
   }
 
+  private validateDefinitionNetworks (definition: RuleDefinition): void {
+    for (const chainId of getDefinitionChainIds(definition)) {
+      this.validateNetwork(chainId)
+    }
+  }
+
   public validateBuiltRule (rule: BuiltRule): void {
     const result = builtRuleSchema.safeParse(rule)
     if (!result.success) {
@@ -111,7 +467,7 @@ export class EVMRuleEngine {
       throw new Error(`invalid rule - ${errorMsg}`)
     }
 
-    this.validateNetwork(rule.definition.chainId)
+    this.validateDefinitionNetworks(rule.definition)
   }
 
   public validateRulesJsonString (rules: string): boolean {
@@ -128,7 +484,7 @@ export class EVMRuleEngine {
       const rulesArray = z.array(ruleDefinitionSchema).parse(rules)
 
       for (const rule of rulesArray) {
-        this.validateNetwork(rule.chainId)
+        this.validateDefinitionNetworks(rule)
       }
       return true
     } catch {
@@ -0,0 +1,163 @@
+import { type BlockTag } from 'ethers'
+
+// Default time to live of a cached read, in milliseconds
+export const DEFAULT_CACHE_TTL = 12_000
+
+// Default number of entries kept by the in-memory store
+export const DEFAULT_CACHE_MAX_ENTRIES = 1000
+
+/**
+ * A key-value store for cached provider reads. Values are strings so any
+ * store, e.g. Redis, can hold them. `ttl` is in milliseconds.
+ */
+export interface CacheStore {
+  get (key: string): Promise<string | undefined> | string | undefined
+  set (key: string, value: string, ttl: number): Promise<void> | void
+}
+
+export interface CacheConfig {
+  // Store to keep reads in, defaults to an in-memory LRU store
+  store?: CacheStore
+  // Time to live of a cached read in milliseconds, Infinity keeps reads
+  // until they are evicted
+  ttl?: number
+  // Fetch the latest block on every evaluation so cached reads are only
+  // reused until the chain advances, defaults to true. When false, the latest
+  // block number is itself cached for `ttl`.
+  invalidateOnNewBlock?: boolean
+  // Size of the default in-memory store
+  maxEntries?: number
+}
+
+export interface CacheStats {
+  hits: number
+  misses: number
+}
+
+interface MemoryCacheEntry {
+  value: string
+  expires: number
+}
+
+/**
+ * In-memory store that evicts the least recently used entry once full.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, MemoryCacheEntry>()
+  private readonly maxEntries: number
+
+  constructor (maxEntries: number = DEFAULT_CACHE_MAX_ENTRIES) {
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error('`maxEntries` must be a positive integer')
+    }
+    this.maxEntries = maxEntries
+  }
+
+  public get size (): number {
+    return this.entries.size
+  }
+
+  public get (key: string): string | undefined {
+    const entry = this.entries.get(key)
+    if (entry === undefined) {
+      return undefined
+    }
+
+    this.entries.delete(key)
+    if (entry.expires <= Date.now()) {
+      return undefined
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  public set (key: string, value: string, ttl: number): void {
+    this.entries.delete(key)
+    this.entries.set(key, { value, expires: Date.now() + ttl })
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) {
+        break
+      }
+      this.entries.delete(oldest)
+    }
+  }
+}
+
+function serializeArg (arg: unknown): unknown {
+  if (typeof arg === 'bigint') {
+    return arg.toString()
+  }
+  if (typeof arg === 'string') {
+    // Addresses and calldata are case-insensitive hex
+    return arg.toLowerCase()
+  }
+  return arg
+}
+
+/**
+ * Caches provider reads across evaluations, keyed by chain, method,
+ * arguments and block. Concurrent reads of the same key share one request.
+ */
+export class ReadCache {
+  public readonly invalidateOnNewBlock: boolean
+  private readonly store: CacheStore
+  private readonly ttl: number
+  private readonly pending = new Map<string, Promise<string>>()
+  private readonly stats: CacheStats = { hits: 0, misses: 0 }
+
+  constructor (config: CacheConfig = {}) {
+    const ttl = config.ttl ?? DEFAULT_CACHE_TTL
+    if (Number.isNaN(ttl) || ttl <= 0) {
+      throw new Error('`ttl` must be a positive number')
+    }
+
+    this.store = config.store ?? new MemoryCacheStore(config.maxEntries)
+    this.ttl = ttl
+    this.invalidateOnNewBlock = config.invalidateOnNewBlock ?? true
+  }
+
+  /**
+   * Hit and miss counts since the cache was created.
+   */
+  public getStats (): CacheStats {
+    return { ...this.stats }
+  }
+
+  /**
+   * Return the cached value for the read, or fetch and cache it.
+   */
+  public async read (chainId: string, method: string, args: unknown[], blockTag: BlockTag | undefined, fetch: () => Promise<string>): Promise<string> {
+    const key = [chainId, method, JSON.stringify(args.map(serializeArg)), String(blockTag ?? 'latest')].join(':')
+
+    const pending = this.pending.get(key)
+    if (pending !== undefined) {
+      this.stats.hits++
+      return pending
+    }
+
+    const request = this.lookup(key, fetch)
+    this.pending.set(key, request)
+    try {
+      return await request
+    } finally {
+      this.pending.delete(key)
+    }
+  }
+
+  private async lookup (key: string, fetch: () => Promise<string>): Promise<string> {
+    const cached = await this.store.get(key)
+    if (cached !== undefined) {
+      this.stats.hits++
+      return cached
+    }
+
+    this.stats.misses++
+    const value = await fetch()
+    await this.store.set(key, value, this.ttl)
+    return value
+  }
+}
@@ -0,0 +1,149 @@
+import { type BuiltRule, type EvaluationContext, type RuleResult } from './types.js'
+import { runRule } from './utils.js'
+
+async function evaluateRules (rules: BuiltRule[], address?: string, context?: EvaluationContext): Promise<RuleResult[]> {
+  return Promise.all(rules.map(async (builtRule, index) => runRule(builtRule, index, address, context)))
+}
+
+/**
+ * Set `indeterminate` on a failed composite result when the nested rules
+ * that could not be determined might have changed the outcome, given the
+ * number of nested rules that must pass.
+ */
+function withIndeterminate (result: RuleResult, required: number): RuleResult {
+  const ruleResults = result.ruleResults ?? []
+  const passed = ruleResults.filter((res) => res.success).length
+  const indeterminate = ruleResults.filter((res) => res.indeterminate === true).length
+  if (!result.success && indeterminate > 0 && passed + indeterminate >= required) {
+    return { ...result, indeterminate: true }
+  }
+  return result
+}
+
+function validateRules (rules: BuiltRule[]): void {
+  if (rules === undefined || rules === null || rules.length === 0) {
+    throw new Error('`rules` is required')
+  }
+}
+
+export interface allParams {
+  rules: BuiltRule[]
+}
+
+/**
+ * Passes if every nested rule passes.
+ */
+export function all (params: allParams): BuiltRule {
+  validateRules(params.rules)
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `All of ${params.rules.length} rules`
+    const ruleResults = await evaluateRules(params.rules, address, context)
+    const success = ruleResults.every((res) => res.success)
+    return withIndeterminate({ name: ruleName, success, ruleResults }, params.rules.length)
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'all',
+      params: {
+        rules: params.rules.map((r) => r.definition)
+      }
+    }
+  }
+}
+
+export interface anyParams {
+  rules: BuiltRule[]
+}
+
+/**
+ * Passes if at least one nested rule passes.
+ */
+export function any (params: anyParams): BuiltRule {
+  validateRules(params.rules)
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `Any of ${params.rules.length} rules`
+    const ruleResults = await evaluateRules(params.rules, address, context)
+    const success = ruleResults.some((res) => res.success)
+    return withIndeterminate({ name: ruleName, success, ruleResults }, 1)
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'any',
+      params: {
+        rules: params.rules.map((r) => r.definition)
+      }
+    }
+  }
+}
+
+export interface notParams {
+  rule: BuiltRule
+}
+
+/**
+ * Passes if the nested rule fails. A nested rule that errored is not
+ * inverted, so an RPC failure can never turn into a pass.
+ */
+export function not (params: notParams): BuiltRule {
+  if (params.rule === undefined || params.rule === null) {
+    throw new Error('`rule` is required')
+  }
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const [result] = await evaluateRules([params.rule], address, context)
+    const ruleName = `Not (${result.name})`
+    if (result.error !== undefined) {
+      return withIndeterminate({ name: ruleName, success: false, error: result.error, ruleResults: [result] }, 1)
+    }
+    return { name: ruleName, success: !result.success, ruleResults: [result] }
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'not',
+      params: {
+        rule: params.rule.definition
+      }
+    }
+  }
+}
+
+export interface atLeastParams {
+  count: number
+  rules: BuiltRule[]
+}
+
+/**
+ * Passes if at least `count` nested rules pass.
+ */
+export function atLeast (params: atLeastParams): BuiltRule {
+  validateRules(params.rules)
+  if (!Number.isInteger(params.count) || params.count < 1 || params.count > params.rules.length) {
+    throw new Error('`count` is required and must be between 1 and the number of rules')
+  }
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `At least ${params.count} of ${params.rules.length} rules`
+    const ruleResults = await evaluateRules(params.rules, address, context)
+    const passed = ruleResults.filter((res) => res.success).length
+    return withIndeterminate({ name: ruleName, success: passed >= params.count, ruleResults }, params.count)
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'atLeast',
+      params: {
+        count: params.count,
+        rules: params.rules.map((r) => r.definition)
+      }
+    }
+  }
+}
@@ -2,4 +2,10 @@
 export * from './types.js'
 export * from './validator.js'
 export * from './rules.js'
+export * from './composite.js'
+export * from './multicall.js'
+export * from './cache.js'
+export * from './retry.js'
+export * from './limiter.js'
+export * from './reader.js'
 export * from './EVMRuleEngine.js'
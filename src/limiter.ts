@@ -0,0 +1,102 @@
+import { type Network } from './types.js'
+
+export interface RateLimit {
+  maxConcurrentRequests?: number
+  requestsPerSecond?: number
+}
+
+/**
+ * Checks the rate limit options of a network, throwing on the first invalid
+ * one.
+ */
+export function validateRateLimit (limit: RateLimit): void {
+  if (limit.maxConcurrentRequests !== undefined && (!Number.isInteger(limit.maxConcurrentRequests) || limit.maxConcurrentRequests < 1)) {
+    throw new Error('`maxConcurrentRequests` must be a positive integer')
+  }
+  if (limit.requestsPerSecond !== undefined && (!Number.isFinite(limit.requestsPerSecond) || limit.requestsPerSecond <= 0)) {
+    throw new Error('`requestsPerSecond` must be a positive number')
+  }
+}
+
+/**
+ * Queues requests so that at most `maxConcurrentRequests` are in flight, and
+ * starts them no faster than `requestsPerSecond`, evenly spaced.
+ */
+export class RateLimiter {
+  private readonly maxConcurrentRequests: number
+  private readonly interval: number
+  private readonly queue: Array<() => void> = []
+  private active = 0
+  private nextStart = 0
+  private timer?: ReturnType<typeof setTimeout>
+
+  constructor (limit: RateLimit) {
+    validateRateLimit(limit)
+    this.maxConcurrentRequests = limit.maxConcurrentRequests ?? Infinity
+    this.interval = limit.requestsPerSecond === undefined ? 0 : 1000 / limit.requestsPerSecond
+  }
+
+  /**
+   * Wait for a slot, resolving with a function that releases it once the
+   * request has finished.
+   */
+  public async acquire (): Promise<() => void> {
+    await new Promise<void>((resolve) => {
+      this.queue.push(resolve)
+      this.drain()
+    })
+
+    let released = false
+    return () => {
+      if (released) {
+        return
+      }
+      released = true
+      this.active--
+      this.drain()
+    }
+  }
+
+  private drain (): void {
+    while (this.queue.length > 0 && this.active < this.maxConcurrentRequests) {
+      const now = Date.now()
+      if (now < this.nextStart) {
+        this.wake(this.nextStart - now)
+        return
+      }
+
+      this.nextStart = now + this.interval
+      this.active++
+      this.queue.shift()?.()
+    }
+  }
+
+  private wake (delay: number): void {
+    if (this.timer !== undefined) {
+      return
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      this.drain()
+    }, delay)
+  }
+}
+
+// Limiters are shared by every engine and reader using the same network
+const rateLimiters = new WeakMap<Network, RateLimiter>()
+
+/**
+ * The rate limiter of a network, `undefined` when the network sets no limits.
+ */
+export function getRateLimiter (network: Network): RateLimiter | undefined {
+  if (network.maxConcurrentRequests === undefined && network.requestsPerSecond === undefined) {
+    return undefined
+  }
+
+  let limiter = rateLimiters.get(network)
+  if (limiter === undefined) {
+    limiter = new RateLimiter(network)
+    rateLimiters.set(network, limiter)
+  }
+  return limiter
+}
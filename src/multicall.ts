@@ -0,0 +1,144 @@
+import { AbiCoder, Interface, type BlockTag, type Provider } from 'ethers'
+
+// Multicall3 is deployed at the same address on most chains
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11'
+
+// Upper bound on the number of calls sent in one aggregate3 request
+const MAX_BATCH_SIZE = 100
+
+const multicall3Interface = new Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)'
+])
+
+export interface CallRequest {
+  to: string
+  data: string
+  blockTag?: BlockTag
+}
+
+// Sends a single eth_call, e.g. with retries and failover
+export interface CallSender {
+  (request: CallRequest): Promise<string>
+}
+
+interface PendingCall extends CallRequest {
+  resolve (result: string): void
+  reject (err: Error): void
+}
+
+/**
+ * Checks if Multicall3 is deployed at `address`.
+ */
+export async function isMulticallDeployed (provider: Provider, address: string = MULTICALL3_ADDRESS): Promise<boolean> {
+  const code = await provider.getCode(address)
+  return code !== '0x'
+}
+
+/**
+ * Collects the eth_calls made for one chain during an evaluation and sends
+ * them as Multicall3 `aggregate3` requests. Each call is allowed to fail on
+ * its own, so one revert does not fail the others.
+ *
+ * When Multicall3 is not deployed the calls are sent individually.
+ */
+export class MulticallBatcher {
+  private readonly provider: Provider
+  private readonly address: string
+  private readonly isDeployed: () => Promise<boolean>
+  private readonly send: CallSender
+  private pending: PendingCall[] = []
+  private scheduled = false
+
+  constructor (provider: Provider, address: string = MULTICALL3_ADDRESS, isDeployed?: () => Promise<boolean>, send?: CallSender) {
+    this.provider = provider
+    this.address = address
+    this.isDeployed = isDeployed ?? (async () => isMulticallDeployed(provider, address))
+    this.send = send ?? (async (request) => this.provider.call(request))
+  }
+
+  /**
+   * Queue an eth_call, resolving with its return data.
+   */
+  public async call (request: CallRequest): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ ...request, resolve, reject })
+
+      if (!this.scheduled) {
+        this.scheduled = true
+        // Wait for the other rules in this evaluation to queue their calls
+        setTimeout(() => {
+          void this.flush()
+        }, 0)
+      }
+    })
+  }
+
+  private async flush (): Promise<void> {
+    const calls = this.pending
+    this.pending = []
+    this.scheduled = false
+
+    let deployed = false
+    try {
+      deployed = calls.length > 1 && await this.isDeployed()
+    } catch {
+      deployed = false
+    }
+
+    if (!deployed) {
+      await Promise.all(calls.map(async (call) => this.callIndividually(call)))
+      return
+    }
+
+    // Calls can only be aggregated when they read the same block
+    const byBlockTag = new Map<BlockTag | undefined, PendingCall[]>()
+    for (const call of calls) {
+      byBlockTag.set(call.blockTag, [...(byBlockTag.get(call.blockTag) ?? []), call])
+    }
+
+    const batches: PendingCall[][] = []
+    for (const group of byBlockTag.values()) {
+      for (let i = 0; i < group.length; i += MAX_BATCH_SIZE) {
+        batches.push(group.slice(i, i + MAX_BATCH_SIZE))
+      }
+    }
+
+    await Promise.all(batches.map(async (batch) => this.aggregate(batch)))
+  }
+
+  private async callIndividually (call: PendingCall): Promise<void> {
+    try {
+      call.resolve(await this.send({ to: call.to, data: call.data, blockTag: call.blockTag }))
+    } catch (err: any) {
+      call.reject(err)
+    }
+  }
+
+  private async aggregate (batch: PendingCall[]): Promise<void> {
+    try {
+      const data = multicall3Interface.encodeFunctionData('aggregate3', [
+        batch.map((call) => ({ target: call.to, allowFailure: true, callData: call.data }))
+      ])
+      const raw = await this.send({ to: this.address, data, blockTag: batch[0].blockTag })
+      if (raw === '0x') {
+        // Multicall3 was not yet deployed at this block
+        await Promise.all(batch.map(async (call) => this.callIndividually(call)))
+        return
+      }
+      const [results] = multicall3Interface.decodeFunctionResult('aggregate3', raw)
+
+      batch.forEach((call, index) => {
+        const { success, returnData } = results[index]
+        if (success === true) {
+          call.resolve(returnData)
+        } else {
+          call.reject(AbiCoder.getBuiltinCallException('call', { to: call.to, data: call.data }, returnData))
+        }
+      })
+    } catch (err: any) {
+      batch.forEach((call) => {
+        call.reject(err)
+      })
+    }
+  }
+}
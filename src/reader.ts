@@ -0,0 +1,329 @@
+import { Interface, type BlockTag, type InterfaceAbi, type Provider } from 'ethers'
+import { MemoryCacheStore } from './cache.js'
+import { getRateLimiter } from './limiter.js'
+import { isPrunedStateError, withRetry } from './retry.js'
+import { type EvaluationContext, type Network } from './types.js'
+import { getLatestBlockNumber, getNetworkByChainId } from './utils.js'
+
+export interface ReadContractParams {
+  address: string
+  abi: InterfaceAbi
+  functionName: string
+  args?: any[]
+}
+
+function getNetwork (networks: Network[], chainId: string): Network {
+  const network = getNetworkByChainId(networks, chainId)
+  if (network === undefined) {
+    throw new Error(`No provider found for chainId: ${chainId}`)
+  }
+  return network
+}
+
+/**
+ * Send a request to the providers of `chainId`, with the timeout, retries
+ * and failover of the chain's retry policy. Each attempt waits for the
+ * network's rate limits.
+ */
+export async function sendRequest <T> (networks: Network[], chainId: string, context: EvaluationContext | undefined, request: (provider: Provider) => Promise<T>): Promise<T> {
+  const network = getNetwork(networks, chainId)
+  const providers = [network.provider, ...(network.fallbackProviders ?? [])]
+  return withRetry(providers, context?.retry?.[chainId], request, getRateLimiter(network))
+}
+
+/**
+ * The block the evaluation pinned `chainId` to, `undefined` meaning latest.
+ */
+export function getBlockTag (context: EvaluationContext | undefined, chainId: string): BlockTag | undefined {
+  return context?.blockNumbers?.[chainId]
+}
+
+/**
+ * Read through the evaluation's cache, if it has one. Values are cached as
+ * strings so any cache store can hold them.
+ */
+async function cachedRead (context: EvaluationContext | undefined, chainId: string, method: string, args: unknown[], fetch: () => Promise<string>): Promise<string> {
+  const cache = context?.cache
+  if (cache === undefined) {
+    return fetch()
+  }
+  return cache.read(chainId, method, args, getBlockTag(context, chainId), fetch)
+}
+
+/**
+ * Call a view function on `chainId`. When the evaluation context has a
+ * Multicall3 batcher for the chain, the call is batched with the other calls
+ * of the evaluation.
+ *
+ * Like `ethers.Contract`, a function with a single output returns that value.
+ */
+export async function readContract (networks: Network[], chainId: string, context: EvaluationContext | undefined, params: ReadContractParams): Promise<any> {
+  getNetwork(networks, chainId)
+
+  const args = params.args ?? []
+  const iface = Interface.from(params.abi)
+  const fragment = iface.getFunction(params.functionName, args)
+  if (fragment === null) {
+    throw new Error(`Function ${params.functionName} not found in abi`)
+  }
+
+  const request = {
+    to: params.address,
+    data: iface.encodeFunctionData(fragment, args),
+    blockTag: getBlockTag(context, chainId)
+  }
+  const batcher = context?.multicall?.[chainId]
+  const raw = await cachedRead(context, chainId, 'call', [request.to, request.data], async () => {
+    // The batcher applies the retry policy to the requests it sends
+    if (batcher !== undefined) {
+      return batcher.call(request)
+    }
+    return sendRequest(networks, chainId, context, async (provider) => provider.call(request))
+  })
+
+  const result = iface.decodeFunctionResult(fragment, raw)
+  return result.length === 1 ? result[0] : result
+}
+
+// The decimals() of each token, kept per network since they never change
+const tokenDecimals = new WeakMap<Network, MemoryCacheStore>()
+
+/**
+ * The store of `network` in `stores`, created on first use. Stores are
+ * bounded like the default read cache store.
+ */
+function getNetworkStore (stores: WeakMap<Network, MemoryCacheStore>, network: Network): MemoryCacheStore {
+  let store = stores.get(network)
+  if (store === undefined) {
+    store = new MemoryCacheStore()
+    stores.set(network, store)
+  }
+  return store
+}
+
+/**
+ * The decimals() of a token, read once per network and token whatever the
+ * evaluation's block.
+ */
+export async function getTokenDecimals (networks: Network[], chainId: string, context: EvaluationContext | undefined, tokenAddress: string): Promise<number> {
+  const store = getNetworkStore(tokenDecimals, getNetwork(networks, chainId))
+  const key = tokenAddress.toLowerCase()
+  const cached = store.get(key)
+  if (cached !== undefined) {
+    return Number(cached)
+  }
+
+  const decimals = await readContract(networks, chainId, context, {
+    address: tokenAddress,
+    abi: ['function decimals() view returns (uint8)'],
+    functionName: 'decimals'
+  })
+  store.set(key, decimals.toString(), Infinity)
+  return Number(decimals)
+}
+
+/**
+ * The ether balance of `address` at the evaluation's block.
+ */
+export async function getBalance (networks: Network[], chainId: string, context: EvaluationContext | undefined, address: string): Promise<bigint> {
+  const balance = await cachedRead(context, chainId, 'getBalance', [address], async () => {
+    return sendRequest(networks, chainId, context, async (provider) => {
+      return (await provider.getBalance(address, getBlockTag(context, chainId))).toString()
+    })
+  })
+  return BigInt(balance)
+}
+
+/**
+ * The code of `address` at the evaluation's block.
+ */
+export async function getCode (networks: Network[], chainId: string, context: EvaluationContext | undefined, address: string): Promise<string> {
+  return cachedRead(context, chainId, 'getCode', [address], async () => {
+    return sendRequest(networks, chainId, context, async (provider) => provider.getCode(address, getBlockTag(context, chainId)))
+  })
+}
+
+/**
+ * The value of storage `slot` of `address` at the evaluation's block.
+ */
+export async function getStorageAt (networks: Network[], chainId: string, context: EvaluationContext | undefined, address: string, slot: bigint): Promise<string> {
+  return cachedRead(context, chainId, 'getStorage', [address, slot], async () => {
+    return sendRequest(networks, chainId, context, async (provider) => provider.getStorage(address, slot, getBlockTag(context, chainId)))
+  })
+}
+
+/**
+ * The nonce of `address` at the evaluation's block.
+ */
+export async function getTransactionCount (networks: Network[], chainId: string, context: EvaluationContext | undefined, address: string): Promise<number> {
+  const nonce = await cachedRead(context, chainId, 'getTransactionCount', [address], async () => {
+    return sendRequest(networks, chainId, context, async (provider) => {
+      return (await provider.getTransactionCount(address, getBlockTag(context, chainId))).toString()
+    })
+  })
+  return Number(nonce)
+}
+
+/**
+ * The timestamp, in seconds, of the evaluation's block.
+ */
+export async function getBlockTimestamp (networks: Network[], chainId: string, context: EvaluationContext | undefined): Promise<number> {
+  const timestamp = await cachedRead(context, chainId, 'getBlockTimestamp', [], async () => {
+    return sendRequest(networks, chainId, context, async (provider) => {
+      const block = await provider.getBlock(getBlockTag(context, chainId) ?? 'latest')
+      if (block === null) {
+        throw new Error(`Block not found on chainId: ${chainId}`)
+      }
+      return block.timestamp.toString()
+    })
+  })
+  return Number(timestamp)
+}
+
+/**
+ * The number of the evaluation's block.
+ */
+export async function getBlockNumber (networks: Network[], chainId: string, context: EvaluationContext | undefined): Promise<number> {
+  const blockNumber = context?.blockNumbers?.[chainId]
+  if (blockNumber !== undefined) {
+    return blockNumber
+  }
+  const latest = await cachedRead(context, chainId, 'getBlockNumber', [], async () => {
+    return (await sendRequest(networks, chainId, context, async (provider) => provider.getBlockNumber())).toString()
+  })
+  return Number(latest)
+}
+
+export interface LogCountFilter {
+  address: string
+  topics: Array<string | string[] | null>
+  fromBlock: number
+  toBlock: number
+}
+
+/**
+ * The number of logs matching `filter`. The block range is given explicitly,
+ * so the count does not depend on the evaluation's block.
+ */
+export async function getLogCount (networks: Network[], chainId: string, context: EvaluationContext | undefined, filter: LogCountFilter): Promise<number> {
+  const count = await cachedRead(context, chainId, 'getLogCount', [filter.address, filter.topics, filter.fromBlock, filter.toBlock], async () => {
+    return sendRequest(networks, chainId, context, async (provider) => (await provider.getLogs(filter)).length.toString())
+  })
+  return Number(count)
+}
+
+export interface FirstActivity {
+  blockNumber: number
+  // In seconds
+  timestamp: number
+}
+
+// The first activity found per address, kept per network since it never
+// changes once found
+const firstActivities = new WeakMap<Network, MemoryCacheStore>()
+
+/**
+ * Binary search for the first block where the nonce or balance of `address`
+ * became non-zero, at or before the evaluation's block. Resolves with
+ * `undefined` when the account has no activity yet. Once found, the first
+ * activity is reused by every evaluation at or after its block.
+ *
+ * Reading historical state needs an archive node.
+ */
+export async function findFirstActivity (networks: Network[], chainId: string, context: EvaluationContext | undefined, address: string): Promise<FirstActivity | undefined> {
+  const store = getNetworkStore(firstActivities, getNetwork(networks, chainId))
+  const blockNumber = await getBlockNumber(networks, chainId, context)
+  const key = address.toLowerCase()
+  const found = store.get(key)
+  if (found !== undefined) {
+    const activity: FirstActivity = JSON.parse(found)
+    if (activity.blockNumber <= blockNumber) {
+      return activity
+    }
+  }
+
+  const activity = await searchFirstActivity(networks, chainId, context, address, blockNumber)
+  if (activity !== undefined) {
+    store.set(key, JSON.stringify(activity), Infinity)
+  }
+  return activity
+}
+
+async function searchFirstActivity (networks: Network[], chainId: string, context: EvaluationContext | undefined, address: string, blockNumber: number): Promise<FirstActivity | undefined> {
+  const isActive = async (blockTag: number): Promise<boolean> => {
+    try {
+      // Separate requests, so each counts against the network's limits
+      const [nonce, balance] = await Promise.all([
+        sendRequest(networks, chainId, context, async (provider) => provider.getTransactionCount(address, blockTag)),
+        sendRequest(networks, chainId, context, async (provider) => provider.getBalance(address, blockTag))
+      ])
+      return nonce > 0 || balance > 0n
+    } catch (err: any) {
+      if (isPrunedStateError(err)) {
+        throw new Error(`Reading the state at block ${blockTag} on chainId: ${chainId} needs an archive node`, { cause: err })
+      }
+      throw err
+    }
+  }
+
+  if (!await isActive(blockNumber)) {
+    return undefined
+  }
+
+  let low = 0
+  let high = blockNumber
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2)
+    if (await isActive(mid)) {
+      high = mid
+    } else {
+      low = mid + 1
+    }
+  }
+
+  const block = await sendRequest(networks, chainId, context, async (provider) => provider.getBlock(low))
+  if (block === null) {
+    throw new Error(`Block ${low} not found on chainId: ${chainId}`)
+  }
+  return { blockNumber: low, timestamp: block.timestamp }
+}
+
+/**
+ * Find the last block on `chainId` with a timestamp at or before
+ * `timestamp` (in seconds).
+ */
+export async function findBlockByTimestamp (networks: Network[], chainId: string, timestamp: number): Promise<number> {
+  const blockTimestamp = async (blockNumber: number): Promise<number> => {
+    const block = await sendRequest(networks, chainId, undefined, async (provider) => provider.getBlock(blockNumber))
+    if (block === null) {
+      throw new Error(`Block ${blockNumber} not found on chainId: ${chainId}`)
+    }
+    return block.timestamp
+  }
+
+  if (await blockTimestamp(0) > timestamp) {
+    throw new Error(`Timestamp ${timestamp} is before the first block on chainId: ${chainId}`)
+  }
+
+  let low = 0
+  let high = await sendRequest(networks, chainId, undefined, getLatestBlockNumber)
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (await blockTimestamp(mid) <= timestamp) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+
+  return low
+}
+
+/**
+ * Find the block at `timestamp` on every configured network, keyed by
+ * chainId. The result can be passed as the `blockTag` evaluate option.
+ */
+export async function findBlocksByTimestamp (networks: Network[], timestamp: number): Promise<Record<string, number>> {
+  const blockNumbers = await Promise.all(networks.map(async (network) => findBlockByTimestamp(networks, network.chainId, timestamp)))
+  return Object.fromEntries(networks.map((network, index) => [network.chainId, blockNumbers[index]]))
+}
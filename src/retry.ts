@@ -0,0 +1,120 @@
+import { isError, type Provider } from 'ethers'
+import { type RateLimiter } from './limiter.js'
+import { type RetryConfig } from './types.js'
+
+// Used for any option a network's retry config leaves unset
+export const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
+  timeout: 10_000,
+  retries: 2,
+  backoff: 250
+}
+
+/**
+ * Thrown when a read could not be completed by any provider of a network,
+ * e.g. because every node timed out. Rules that fail with it are reported as
+ * indeterminate rather than failed.
+ */
+export class InfrastructureError extends Error {
+  constructor (message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'InfrastructureError'
+  }
+}
+
+/**
+ * Checks the options of a retry config, throwing on the first invalid one.
+ */
+export function validateRetryConfig (config: RetryConfig): void {
+  if (config.timeout !== undefined && (!Number.isFinite(config.timeout) || config.timeout <= 0)) {
+    throw new Error('`timeout` must be a positive number')
+  }
+  if (config.retries !== undefined && (!Number.isInteger(config.retries) || config.retries < 0)) {
+    throw new Error('`retries` must be a non-negative integer')
+  }
+  if (config.backoff !== undefined && (!Number.isFinite(config.backoff) || config.backoff < 0)) {
+    throw new Error('`backoff` must be a non-negative number')
+  }
+}
+
+// Errors nodes return for state they have pruned
+const PRUNED_STATE_ERROR = /missing trie node|historical state|state (?:is )?not available|pruned|header not found/i
+
+/**
+ * Whether the node failed because it no longer has the state of the
+ * requested block, i.e. it is not an archive node.
+ */
+export function isPrunedStateError (err: any): boolean {
+  return PRUNED_STATE_ERROR.test(err?.message ?? '')
+}
+
+/**
+ * Errors the node returned for the request itself, such as a revert, would
+ * be the same on every node, so they are not retried. Neither is a read of
+ * pruned state, which the node will not have on a retry either.
+ */
+function isDeterministicError (err: any): boolean {
+  return isPrunedStateError(err) ||
+    isError(err, 'CALL_EXCEPTION') ||
+    isError(err, 'INVALID_ARGUMENT') ||
+    isError(err, 'MISSING_ARGUMENT') ||
+    isError(err, 'UNEXPECTED_ARGUMENT') ||
+    isError(err, 'NUMERIC_FAULT') ||
+    isError(err, 'BAD_DATA')
+}
+
+async function withTimeout <T> (promise: Promise<T>, timeout: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timedOut = new Promise<never>((resolve, reject) => {
+    timer = setTimeout(() => {
+      reject(new Error(`Request timed out after ${timeout}ms`))
+    }, timeout)
+  })
+
+  try {
+    return await Promise.race([promise, timedOut])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+async function sleep (ms: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Send a request to each provider in order until one succeeds. When every
+ * provider fails the round is retried after a backoff that doubles each
+ * time. Deterministic errors are thrown straight away; once the retries run
+ * out the last error is thrown as an `InfrastructureError`.
+ *
+ * With a `limiter`, each attempt waits for a slot before its timeout starts,
+ * and holds it until the request settles, even after timing out.
+ */
+export async function withRetry <T> (providers: Provider[], config: RetryConfig | undefined, request: (provider: Provider) => Promise<T>, limiter?: RateLimiter): Promise<T> {
+  const { timeout, retries, backoff } = { ...DEFAULT_RETRY_CONFIG, ...config }
+  let lastError: any
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      await sleep(backoff * 2 ** (attempt - 1))
+    }
+
+    for (const provider of providers) {
+      const release = await limiter?.acquire()
+      const pending = request(provider)
+      // A timed out request is still running on the node, so its slot is
+      // only released once it settles
+      pending.finally(() => release?.()).catch(() => {})
+      try {
+        return await withTimeout(pending, timeout)
+      } catch (err: any) {
+        if (err instanceof InfrastructureError || isDeterministicError(err)) {
+          throw err
+        }
+        lastError = err
+      }
+    }
+  }
+
+  throw new InfrastructureError(lastError?.message ?? 'No provider available', { cause: lastError })
+}
@@ -1,6 +1,8 @@
-import { ethers } from 'ethers'
-import { type RuleResult, type BuiltRule, type Network, type RuleDefinition } from './types.js'
-import { getProviderByChainId } from './utils.js'
+import { AbiCoder, EventFragment, Interface, ParamType, TypedDataEncoder, ZeroAddress, concat, dataSlice, formatUnits, getAddress, hashMessage, isAddress, isError, isHexString, keccak256, parseUnits, recoverAddress, type TypedDataDomain, type TypedDataField } from 'ethers'
+import { all, any, atLeast, not } from './composite.js'
+import { findFirstActivity, getBalance, getBlockNumber, getBlockTimestamp, getCode, getLogCount, getStorageAt, getTokenDecimals, getTransactionCount, readContract } from './reader.js'
+import { type RuleResult, type BuiltRule, type EvaluationContext, type MerkleProof, type Network, type RuleDefinition, type RuleOptions } from './types.js'
+import { errorResult, getProviderByChainId, runRule } from './utils.js'
 
 const ruleFactories: Record<string, (...args: any[]) => BuiltRule> = {
   walletBalance: (networks: Network[], chainId: string, params: walletBalanceParams) =>
@@ -28,7 +30,150 @@ const ruleFactories: Record<string, (...args: any[]) => BuiltRule> = {
     addressIsEOA(networks, chainId, params),
 
   callContract: (networks: Network[], chainId: string, params: callContractParams) =>
-    callContract(networks, chainId, params)
+    callContract(networks, chainId, params),
+
+  erc1155Balance: (networks: Network[], chainId: string, params: erc1155BalanceParams) =>
+    erc1155Balance(networks, chainId, params),
+
+  erc1155BalanceOfAny: (networks: Network[], chainId: string, params: erc1155BalanceOfAnyParams) =>
+    erc1155BalanceOfAny(networks, chainId, params),
+
+  erc20Allowance: (networks: Network[], chainId: string, params: erc20AllowanceParams) =>
+    erc20Allowance(networks, chainId, params),
+
+  permit2Allowance: (networks: Network[], chainId: string, params: permit2AllowanceParams) =>
+    permit2Allowance(networks, chainId, params),
+
+  accountAge: (networks: Network[], chainId: string, params: accountAgeParams) =>
+    accountAge(networks, chainId, params),
+
+  signedMessage: (networks: Network[], chainId: string, params: signedMessageParams) =>
+    signedMessage(networks, chainId, params),
+
+  hasEvents: (networks: Network[], chainId: string, params: hasEventsParams) =>
+    hasEvents(networks, chainId, params),
+
+  merkleMembership: (networks: Network[], chainId: string, params: merkleMembershipParams) =>
+    merkleMembership(networks, chainId, params),
+
+  storageSlot: (networks: Network[], chainId: string, params: storageSlotParams) =>
+    storageSlot(networks, chainId, params),
+
+  proxyImplementation: (networks: Network[], chainId: string, params: proxyImplementationParams) =>
+    proxyImplementation(networks, chainId, params),
+
+  codeHash: (networks: Network[], chainId: string, params: codeHashParams) =>
+    codeHash(networks, chainId, params),
+
+  delegatedTo: (networks: Network[], chainId: string, params: delegatedToParams) =>
+    delegatedTo(networks, chainId, params),
+
+  usdValue: (networks: Network[], chainId: string, params: usdValueParams) =>
+    usdValue(networks, chainId, params),
+
+  vaultPosition: (networks: Network[], chainId: string, params: vaultPositionParams) =>
+    vaultPosition(networks, chainId, params),
+
+  votingPower: (networks: Network[], chainId: string, params: votingPowerParams) =>
+    votingPower(networks, chainId, params),
+
+  delegatesTo: (networks: Network[], chainId: string, params: delegatesToParams) =>
+    delegatesTo(networks, chainId, params),
+
+  safeThreshold: (networks: Network[], chainId: string, params: safeThresholdParams) =>
+    safeThreshold(networks, chainId, params),
+
+  // The nested rule is built from its definition
+  safeOwner: (networks: Network[], chainId: string, params: Record<string, any>) =>
+    safeOwner(networks, chainId, {
+      safeAddress: params.safeAddress,
+      rule: params.rule === undefined ? undefined : createRulesFromDefinitions(networks, [params.rule])[0]
+    })
+}
+
+// Cross-chain rules read several chains, set by each leg, so they have no
+// chainId of their own
+const crossChainRuleFactories: Record<string, (networks: Network[], params: Record<string, any>) => BuiltRule> = {
+  aggregateBalance: (networks: Network[], params: Record<string, any>) =>
+    aggregateBalance(networks, params as aggregateBalanceParams)
+}
+
+// List rules only look at the address, so they have no chainId
+const listRuleFactories: Record<string, (params: Record<string, any>) => BuiltRule> = {
+  addressInList: (params: Record<string, any>) =>
+    addressInList({ addresses: params.addresses }),
+
+  addressNotInList: (params: Record<string, any>) =>
+    addressNotInList({ addresses: params.addresses })
+}
+
+// Composite rules build their nested definitions recursively
+const compositeRuleFactories: Record<string, (networks: Network[], params: Record<string, any>) => BuiltRule> = {
+  all: (networks: Network[], params: Record<string, any>) =>
+    all({ rules: createRulesFromDefinitions(networks, params.rules ?? []) }),
+
+  any: (networks: Network[], params: Record<string, any>) =>
+    any({ rules: createRulesFromDefinitions(networks, params.rules ?? []) }),
+
+  not: (networks: Network[], params: Record<string, any>) =>
+    not({ rule: createRulesFromDefinitions(networks, params.rule === undefined ? [] : [params.rule])[0] }),
+
+  atLeast: (networks: Network[], params: Record<string, any>) =>
+    atLeast({ count: params.count, rules: createRulesFromDefinitions(networks, params.rules ?? []) })
+}
+
+// Estimated number of RPC calls made by each rule type, used to order rules
+// in short-circuit mode
+export const ruleCosts: Record<string, number> = {
+  walletBalance: 1,
+  contractBalance: 1,
+  erc20Balance: 1,
+  numTransactions: 1,
+  hasNFT: 1,
+  hasNFTTokenId: 1,
+  addressIsContract: 1,
+  addressIsEOA: 1,
+  callContract: 1,
+  erc1155Balance: 1,
+  erc1155BalanceOfAny: 1,
+  erc20Allowance: 1,
+  permit2Allowance: 3,
+  accountAge: 50,
+  signedMessage: 1,
+  hasEvents: 10,
+  merkleMembership: 1,
+  storageSlot: 1,
+  proxyImplementation: 3,
+  codeHash: 1,
+  delegatedTo: 1,
+  usdValue: 3,
+  vaultPosition: 3,
+  votingPower: 1,
+  delegatesTo: 1,
+  safeThreshold: 2,
+  safeOwner: 1,
+  addressInList: 0,
+  addressNotInList: 0,
+  custom: 1
+}
+
+/**
+ * Estimate the cost of evaluating a definition. Composite rules cost the sum
+ * of their nested rules, plus their own reads, and aggregate rules a read per
+ * leg.
+ */
+export function estimateRuleCost (definition: RuleDefinition): number {
+  const { params } = definition
+  if (params?.rule !== undefined) {
+    return (ruleCosts[definition.type] ?? 0) + estimateRuleCost(params.rule)
+  }
+  if (Array.isArray(params?.rules)) {
+    return params.rules.reduce((sum: number, rule: RuleDefinition) => sum + estimateRuleCost(rule), 0)
+  }
+  if (Array.isArray(params?.legs)) {
+    return params.legs.length
+  }
+  return ruleCosts[definition.type] ?? 1
 }
 
 /**
@@ -43,6 +188,21 @@ export function createRulesFromDefinitions (networks: Network[], definitions: Ru
       throw new Error('Missing rule type')
     }
 
+    const compositeFactory = compositeRuleFactories[type]
+    if (compositeFactory !== undefined) {
+      return withOptions(compositeFactory(networks, params ?? {}), def)
+    }
+
+    const crossChainFactory = crossChainRuleFactories[type]
+    if (crossChainFactory !== undefined) {
+      return withOptions(crossChainFactory(networks, params ?? {}), def)
+    }
+
+    const listFactory = listRuleFactories[type]
+    if (listFactory !== undefined) {
+      return withOptions(listFactory(params ?? {}), def)
+    }
+
     if (chainId === undefined) {
       throw new Error('Missing chainId')
     }
@@ -68,7 +228,25 @@ export function createRulesFromDefinitions (networks: Network[], definitions: Ru
       case 'addressIsContract':
       case 'addressIsEOA':
       case 'callContract':
-        return factory(networks, chainId, params)
+      case 'erc1155Balance':
+      case 'erc1155BalanceOfAny':
+      case 'erc20Allowance':
+      case 'permit2Allowance':
+      case 'accountAge':
+      case 'signedMessage':
+      case 'hasEvents':
+      case 'merkleMembership':
+      case 'storageSlot':
+      case 'proxyImplementation':
+      case 'codeHash':
+      case 'delegatedTo':
+      case 'usdValue':
+      case 'vaultPosition':
+      case 'votingPower':
+      case 'delegatesTo':
+      case 'safeThreshold':
+      case 'safeOwner':
+        return withOptions(factory(networks, chainId, params), def)
 
       default:
         throw new Error(`No constructor logic for rule type: "${type}"`)
@@ -78,9 +256,92 @@ export function createRulesFromDefinitions (networks: Network[], definitions: Ru
   return createdRules
 }
 
+/**
+ * Attach rule options, such as `weight`, to a rule's definition so they are
+ * used during evaluation and kept when the rule is exported.
+ */
+export function withOptions (builtRule: BuiltRule, options: RuleOptions): BuiltRule {
+  const definition: RuleDefinition = { ...builtRule.definition }
+
+  if (options.weight !== undefined) {
+    if (typeof options.weight !== 'number' || !Number.isFinite(options.weight) || options.weight < 0) {
+      throw new Error('`weight` must be a non-negative number')
+    }
+    definition.weight = options.weight
+  }
+
+  if (options.priority !== undefined) {
+    if (typeof options.priority !== 'number' || !Number.isFinite(options.priority)) {
+      throw new Error('`priority` must be a number')
+    }
+    definition.priority = options.priority
+  }
+
+  return { rule: builtRule.rule, definition }
+}
+
+/**
+ * Compare `actual` against `expected`. Rules created from JSON definitions
+ * receive `expected` as a string, so it is converted first.
+ */
+function compareValues (actual: bigint, compareType: string, expected: bigint | string): boolean {
+  const expectedBig = BigInt(expected)
+  switch (compareType) {
+    case 'eq':
+      return actual === expectedBig
+    case 'gt':
+      return actual > expectedBig
+    case 'gte':
+      return actual >= expectedBig
+    case 'lt':
+      return actual < expectedBig
+    case 'lte':
+      return actual <= expectedBig
+    default:
+      throw new Error(`Unsupported compareType: ${compareType}`)
+  }
+}
+
+/**
+ * Checks that `value` is a non-negative decimal amount, such as '100.5'.
+ */
+function validateAmount (value: bigint | string): string {
+  const amount = value.toString()
+  if (!/^\d+(\.\d+)?$/.test(amount)) {
+    throw new Error('`value` must be a non-negative decimal amount')
+  }
+  return amount
+}
+
+/**
+ * Convert an ether amount in `units` to wei, without any float math.
+ */
+function parseEtherAmount (value: bigint | string, units?: EtherUnits): bigint {
+  if (units === undefined) {
+    return BigInt(value)
+  }
+  if (!['wei', 'gwei', 'ether'].includes(units)) {
+    throw new Error('`units` must be one of wei, gwei, ether')
+  }
+  return parseUnits(validateAmount(value), units)
+}
+
+function formatAmount (value: bigint | string, units?: string): string {
+  return units === undefined ? value.toString() : `${value} ${units}`
+}
+
+function withUnits (params: Record<string, any>, units?: string): Record<string, any> {
+  return units === undefined ? params : { ...params, units }
+}
+
+// Units of the `value` of ether balance rules
+export type EtherUnits = 'wei' | 'gwei' | 'ether'
+
 export interface walletBalanceParams {
-  value: bigint
+  // An amount in `units` when they are set, e.g. '1.5', otherwise wei
+  value: bigint | string
   compareType: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+  units?: EtherUnits
 }
 
 /**
@@ -93,45 +354,23 @@ export function walletBalance (networks: Network[], chainId: string, params: wal
   if (!['eq', 'gt', 'gte', 'lt', 'lte'].includes(params.compareType)) {
     throw new Error('`compareType` is required and must be one of eq, gt, gte, lt, lte')
   }
+  const value = parseEtherAmount(params.value, params.units)
 
-  const rule = async (address?: string): Promise<RuleResult> => {
-    const ruleName = `Wallet balance ${params.compareType} ${params.value}`
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `Wallet balance ${params.compareType} ${formatAmount(params.value, params.units)}`
     if (address === undefined || address === null || address === '') {
       throw new Error('`address` is required')
     }
 
     try {
-      const provider = getProviderByChainId(networks, chainId)
-      if (provider === undefined) {
-        throw new Error(`No provider found for chainId: ${chainId}`)
-      }
-      const balance = await provider.getBalance(address)
-      const balanceBig = BigInt(balance.toString())
-      let success = false
-
-      switch (params.compareType) {
-        case 'eq':
-          success = balanceBig === params.value
-          break
-        case 'gt':
-          success = balanceBig > params.value
-          break
-        case 'gte':
-          success = balanceBig >= params.value
-          break
-        case 'lt':
-          success = balanceBig < params.value
-          break
-        case 'lte':
-          success = balanceBig <= params.value
-          break
-        default:
-          throw new Error(`Unsupported compareType: ${params.compareType}`)
+      const balance = await getBalance(networks, chainId, context, address)
+      const success = compareValues(balance, params.compareType, value)
+      if (params.units !== undefined) {
+        return { name: ruleName, success, details: { balance: formatUnits(balance, params.units) } }
       }
-
       return { name: ruleName, success }
     } catch (err: any) {
-      return { name: ruleName, success: false, error: err.message }
+      return errorResult(ruleName, err)
     }
   }
 
@@ -139,10 +378,10 @@ export function walletBalance (networks: Network[], chainId: string, params: wal
     rule,
     definition: {
       type: 'walletBalance',
-      params: {
+      params: withUnits({
         value: params.value.toString(),
         compareType: params.compareType
-      },
+      }, params.units),
       chainId
     }
   }
@@ -150,8 +389,10 @@ export function walletBalance (networks: Network[], chainId: string, params: wal
 
 export interface contractBalanceParams {
   contractAddress: string
-  value: bigint
+  // An amount in `units` when they are set, e.g. '1.5', otherwise wei
+  value: bigint | string
   compareType: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+  units?: EtherUnits
 }
 
 /**
@@ -167,41 +408,19 @@ export function contractBalance (networks: Network[], chainId: string, params: c
   if (!['eq', 'gt', 'gte', 'lt', 'lte'].includes(params.compareType)) {
     throw new Error('`compareType` is required and must be one of eq, gt, gte, lt, lte')
   }
+  const value = parseEtherAmount(params.value, params.units)
 
-  const rule = async (): Promise<RuleResult> => {
-    const ruleName = `Contract balance ${params.compareType} ${params.value} at ${params.contractAddress}`
+  const rule = async (_address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `Contract balance ${params.compareType} ${formatAmount(params.value, params.units)} at ${params.contractAddress}`
     try {
-      const provider = getProviderByChainId(networks, chainId)
-      if (provider === undefined) {
-        throw new Error(`No provider found for chainId: ${chainId}`)
-      }
-      const balance = await provider.getBalance(params.contractAddress)
-      const balanceBig = BigInt(balance.toString())
-      let success = false
-
-      switch (params.compareType) {
-        case 'eq':
-          success = balanceBig === params.value
-          break
-        case 'gt':
-          success = balanceBig > params.value
-          break
-        case 'gte':
-          success = balanceBig >= params.value
-          break
-        case 'lt':
-          success = balanceBig < params.value
-          break
-        case 'lte':
-          success = balanceBig <= params.value
-          break
-        default:
-          throw new Error(`Unsupported compareType: ${params.compareType}`)
+      const balance = await getBalance(networks, chainId, context, params.contractAddress)
+      const success = compareValues(balance, params.compareType, value)
+      if (params.units !== undefined) {
+        return { name: ruleName, success, details: { balance: formatUnits(balance, params.units) } }
       }
-
       return { name: ruleName, success }
     } catch (err: any) {
-      return { name: ruleName, success: false, error: err.message }
+      return errorResult(ruleName, err)
     }
   }
 
@@ -209,11 +428,11 @@ export function contractBalance (networks: Network[], chainId: string, params: c
     rule,
     definition: {
       type: 'contractBalance',
-      params: {
+      params: withUnits({
         contractAddress: params.contractAddress,
         value: params.value.toString(),
         compareType: params.compareType
-      },
+      }, params.units),
       chainId
     }
   }
@@ -221,12 +440,16 @@ export function contractBalance (networks: Network[], chainId: string, params: c
 
 export interface erc20BalanceParams {
   tokenAddress: string
-  value: bigint
+  // An amount of tokens when `units` is token, e.g. '100.5', otherwise the
+  // raw amount
+  value: bigint | string
   compareType: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+  units?: 'raw' | 'token'
 }
 
 /**
  * Checks if `address` holds an ERC-20 balance that satisfies the condition defined by compareType and value.
+ * With `units: 'token'` the value is converted using the token's decimals.
  */
 export function erc20Balance (networks: Network[], chainId: string, params: erc20BalanceParams): BuiltRule {
   if (params.tokenAddress === undefined || params.tokenAddress === null) {
@@ -238,46 +461,37 @@ export function erc20Balance (networks: Network[], chainId: string, params: erc2
   if (!['eq', 'gt', 'gte', 'lt', 'lte'].includes(params.compareType)) {
     throw new Error('`compareType` is required and must be one of eq, gt, gte, lt, lte')
   }
+  if (params.units !== undefined && !['raw', 'token'].includes(params.units)) {
+    throw new Error('`units` must be one of raw, token')
+  }
+  const inTokens = params.units === 'token'
+  const amount = inTokens ? validateAmount(params.value) : params.value.toString()
 
-  const rule = async (address?: string): Promise<RuleResult> => {
-    const ruleName = `ERC20 balance ${params.compareType} ${params.value} (token: ${params.tokenAddress})`
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `ERC20 balance ${params.compareType} ${amount}${inTokens ? ' tokens' : ''} (token: ${params.tokenAddress})`
     if (address === undefined || address === null || address === '') {
       throw new Error('`address` is required')
     }
     try {
-      const provider = getProviderByChainId(networks, chainId)
-      if (provider === undefined) {
-        throw new Error(`No provider found for chainId: ${chainId}`)
-      }
-      const abi = ['function balanceOf(address) view returns (uint256)']
-      const contract = new ethers.Contract(params.tokenAddress, abi, provider)
-      const balance = await contract.balanceOf(address)
+      const [balance, decimals] = await Promise.all([
+        readContract(networks, chainId, context, {
+          address: params.tokenAddress,
+          abi: ['function balanceOf(address) view returns (uint256)'],
+          functionName: 'balanceOf',
+          args: [address]
+        }),
+        inTokens ? getTokenDecimals(networks, chainId, context, params.tokenAddress) : undefined
+      ])
       const balanceBig = BigInt(balance.toString())
-      let success = false
 
-      switch (params.compareType) {
-        case 'eq':
-          success = balanceBig === params.value
-          break
-        case 'gt':
-          success = balanceBig > params.value
-          break
-        case 'gte':
-          success = balanceBig >= params.value
-          break
-        case 'lt':
-          success = balanceBig < params.value
-          break
-        case 'lte':
-          success = balanceBig <= params.value
-          break
-        default:
-          throw new Error(`Unsupported compareType: ${params.compareType}`)
+      if (decimals === undefined) {
+        return { name: ruleName, success: compareValues(balanceBig, params.compareType, amount) }
       }
 
-      return { name: ruleName, success }
+      const success = compareValues(balanceBig, params.compareType, parseUnits(amount, decimals))
+      return { name: ruleName, success, details: { balance: formatUnits(balanceBig, decimals), decimals } }
     } catch (err: any) {
-      return { name: ruleName, success: false, error: err.message }
+      return errorResult(ruleName, err)
     }
   }
 
@@ -285,11 +499,11 @@ export function erc20Balance (networks: Network[], chainId: string, params: erc2
     rule,
     definition: {
       type: 'erc20Balance',
-      params: {
+      params: withUnits({
         tokenAddress: params.tokenAddress,
         value: params.value.toString(),
         compareType: params.compareType
-      },
+      }, params.units),
       chainId
     }
   }
@@ -311,17 +525,13 @@ export function numTransactions (networks: Network[], chainId: string, params: n
     throw new Error('`compareType` is required and must be one of eq, gt, gte, lt, lte')
   }
 
-  const rule = async (address?: string): Promise<RuleResult> => {
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
     const ruleName = `Number of transactions ${params.compareType} ${params.value}`
     if (address === undefined || address === null || address === '') {
       throw new Error('`address` is required')
     }
     try {
-      const provider = getProviderByChainId(networks, chainId)
-      if (provider === undefined) {
-        throw new Error(`No provider found for chainId: ${chainId}`)
-      }
-      const txCount = await provider.getTransactionCount(address)
+      const txCount = await getTransactionCount(networks, chainId, context, address)
       const txCountBig = BigInt(txCount)
       let success = false
 
@@ -347,7 +557,7 @@ export function numTransactions (networks: Network[], chainId: string, params: n
 
       return { name: ruleName, success }
     } catch (err: any) {
-      return { name: ruleName, success: false, error: err.message }
+      return errorResult(ruleName, err)
     }
   }
 
@@ -364,42 +574,162 @@ export function numTransactions (networks: Network[], chainId: string, params: n
   }
 }
 
+// Upper bound on the token ids hasNFT looks up one by one
+export const MAX_NFT_TOKEN_SCAN = 1000
+
+// ERC-165 interface id of ERC721Enumerable
+const ERC721_ENUMERABLE_INTERFACE_ID = '0x780e9d63'
+
+const erc721Abi = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+  'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)'
+]
+
 export interface hasNFTParams {
   nftAddress: string
+  // Number of matching tokens to compare against, defaults to 1
+  value?: bigint
+  // Defaults to gte
+  compareType?: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+  // Only count these token ids
+  tokenIds?: bigint[]
+  // Only count token ids from `from` to `to`, inclusive
+  tokenIdRange?: { from: bigint, to: bigint }
 }
 
 /**
- * Checks if `address` has at least 1 token in an ERC-721 collection (`nftAddress`).
+ * Checks if the number of tokens `address` has in an ERC-721 collection (`nftAddress`) satisfies the condition
+ * defined by compareType and value, by default at least 1.
+ *
+ * With `tokenIds` or `tokenIdRange` only the matching tokens are counted, and listed in the result details. They
+ * are found with `ownerOf`, or with `tokenOfOwnerByIndex` when the collection is ERC721Enumerable and that takes
+ * fewer calls.
  */
 export function hasNFT (networks: Network[], chainId: string, params: hasNFTParams): BuiltRule {
   if (params.nftAddress === undefined || params.nftAddress === null) {
     throw new Error('`nftAddress` is required')
   }
-  const rule = async (address?: string): Promise<RuleResult> => {
-    const ruleName = `Address has at least 1 NFT from ${params.nftAddress}`
+  const compareType = params.compareType ?? 'gte'
+  if (!['eq', 'gt', 'gte', 'lt', 'lte'].includes(compareType)) {
+    throw new Error('`compareType` must be one of eq, gt, gte, lt, lte')
+  }
+  if (params.tokenIds !== undefined && params.tokenIdRange !== undefined) {
+    throw new Error('Only one of `tokenIds` and `tokenIdRange` can be set')
+  }
+  if (params.tokenIds !== undefined && params.tokenIds.length === 0) {
+    throw new Error('`tokenIds` must not be empty')
+  }
+  // Definitions loaded from JSON hold the token ids as strings
+  const value = BigInt(params.value ?? 1n)
+  const tokenIds = params.tokenIds?.map((tokenId) => BigInt(tokenId))
+  const tokenIdRange = params.tokenIdRange === undefined
+    ? undefined
+    : { from: BigInt(params.tokenIdRange.from), to: BigInt(params.tokenIdRange.to) }
+  if (tokenIdRange !== undefined && tokenIdRange.from > tokenIdRange.to) {
+    throw new Error('`tokenIdRange.from` must not be greater than `tokenIdRange.to`')
+  }
+
+  const filtered = tokenIds !== undefined || tokenIdRange !== undefined
+  let filterName = ''
+  if (tokenIds !== undefined) {
+    filterName = ` with token id in [${tokenIds.join(', ')}]`
+  } else if (tokenIdRange !== undefined) {
+    filterName = ` with token id from ${tokenIdRange.from} to ${tokenIdRange.to}`
+  }
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = params.value === undefined && params.compareType === undefined && !filtered
+      ? `Address has at least 1 NFT from ${params.nftAddress}`
+      : `Address has NFTs from ${params.nftAddress}${filterName} ${compareType} ${value}`
     if (address === undefined || address === null || address === '') {
       throw new Error('`address` is required')
     }
     try {
-      const provider = getProviderByChainId(networks, chainId)
-      if (provider === undefined) {
-        throw new Error(`No provider found for chainId: ${chainId}`)
+      const read = async (functionName: string, args: any[]): Promise<any> => {
+        return readContract(networks, chainId, context, { address: params.nftAddress, abi: erc721Abi, functionName, args })
       }
-      const abi = ['function balanceOf(address owner) view returns (uint256)']
-      const contract = new ethers.Contract(params.nftAddress, abi, provider)
-      const balance = await contract.balanceOf(address)
-      const balanceBig = BigInt(balance.toString())
-      const success = balanceBig >= 1n
-      return { name: ruleName, success }
+
+      const balance = BigInt((await read('balanceOf', [address])).toString())
+      if (!filtered) {
+        return { name: ruleName, success: compareValues(balance, compareType, value) }
+      }
+
+      const inFilter = (tokenId: bigint): boolean => tokenIds !== undefined
+        ? tokenIds.includes(tokenId)
+        : tokenId >= (tokenIdRange?.from ?? 0n) && tokenId <= (tokenIdRange?.to ?? 0n)
+      const candidates = tokenIds?.length ?? Number((tokenIdRange?.to ?? 0n) - (tokenIdRange?.from ?? 0n) + 1n)
+
+      let matching: bigint[] = []
+      if (balance > 0n) {
+        const scan = async (): Promise<bigint[]> => {
+          const ids = tokenIds ?? Array.from({ length: candidates }, (_, i) => (tokenIdRange?.from ?? 0n) + BigInt(i))
+          const owners = await Promise.all(ids.map(async (tokenId) => {
+            try {
+              return await read('ownerOf', [tokenId])
+            } catch (err: any) {
+              // ownerOf reverts for tokens that do not exist
+              if (isError(err, 'CALL_EXCEPTION')) {
+                return undefined
+              }
+              throw err
+            }
+          }))
+          return ids.filter((_, i) => owners[i]?.toLowerCase() === address.toLowerCase())
+        }
+        const enumerate = async (): Promise<bigint[]> => {
+          const owned = await Promise.all(Array.from({ length: Number(balance) }, async (_, i) => read('tokenOfOwnerByIndex', [address, i])))
+          return owned.map((tokenId) => BigInt(tokenId.toString())).filter(inFilter)
+        }
+        const isEnumerable = async (): Promise<boolean> => {
+          try {
+            return await read('supportsInterface', [ERC721_ENUMERABLE_INTERFACE_ID]) === true
+          } catch (err: any) {
+            if (isError(err, 'CALL_EXCEPTION') || isError(err, 'BAD_DATA')) {
+              return false
+            }
+            throw err
+          }
+        }
+
+        if (candidates <= MAX_NFT_TOKEN_SCAN && BigInt(candidates) <= balance) {
+          matching = await scan()
+        } else if (balance <= BigInt(MAX_NFT_TOKEN_SCAN) && await isEnumerable()) {
+          matching = await enumerate()
+        } else if (candidates <= MAX_NFT_TOKEN_SCAN) {
+          matching = await scan()
+        } else {
+          throw new Error(`Cannot search more than ${MAX_NFT_TOKEN_SCAN} token ids, use fewer token ids or an ERC721Enumerable collection`)
+        }
+      }
+
+      const success = compareValues(BigInt(matching.length), compareType, value)
+      return { name: ruleName, success, details: { tokenIds: matching.map((tokenId) => tokenId.toString()) } }
     } catch (err: any) {
-      return { name: ruleName, success: false, error: err.message }
+      return errorResult(ruleName, err)
     }
   }
+
+  const definitionParams: Record<string, any> = { nftAddress: params.nftAddress }
+  if (params.value !== undefined) {
+    definitionParams.value = value.toString()
+  }
+  if (params.compareType !== undefined) {
+    definitionParams.compareType = compareType
+  }
+  if (tokenIds !== undefined) {
+    definitionParams.tokenIds = tokenIds.map((tokenId) => tokenId.toString())
+  }
+  if (tokenIdRange !== undefined) {
+    definitionParams.tokenIdRange = { from: tokenIdRange.from.toString(), to: tokenIdRange.to.toString() }
+  }
+
   return {
     rule,
     definition: {
       type: 'hasNFT',
-      params: { nftAddress: params.nftAddress },
+      params: definitionParams,
       chainId
     }
   }
@@ -420,23 +750,22 @@ export function hasNFTTokenId (networks: Network[], chainId: string, params: has
   if (params.tokenId === undefined || params.tokenId === null) {
     throw new Error('`tokenId` is required')
   }
-  const rule = async (address?: string): Promise<RuleResult> => {
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
     const ruleName = `Address has NFT ${params.nftAddress} #${params.tokenId}`
     if (address === undefined || address === null || address === '') {
       throw new Error('`address` is required')
     }
     try {
-      const provider = getProviderByChainId(networks, chainId)
-      if (provider === undefined) {
-        throw new Error(`No provider found for chainId: ${chainId}`)
-      }
-      const abi = ['function ownerOf(uint256 tokenId) external view returns (address)']
-      const nftContract = new ethers.Contract(params.nftAddress, abi, provider)
-      const actualOwner = await nftContract.ownerOf(params.tokenId)
+      const actualOwner = await readContract(networks, chainId, context, {
+        address: params.nftAddress,
+        abi: ['function ownerOf(uint256 tokenId) external view returns (address)'],
+        functionName: 'ownerOf',
+        args: [params.tokenId]
+      })
       const success = actualOwner.toLowerCase() === address.toLowerCase()
       return { name: ruleName, success }
     } catch (err: any) {
-      return { name: ruleName, success: false, error: err.message }
+      return errorResult(ruleName, err)
     }
   }
   return {
@@ -452,25 +781,42 @@ export function hasNFTTokenId (networks: Network[], chainId: string, params: has
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
 export interface addressIsContractParams {}
 
+// The code of an EOA that delegates to a contract with EIP-7702 is this
+// designator followed by the contract's address
+const EIP7702_DESIGNATOR = '0xef0100'
+
+export type AccountKind = 'eoa' | 'delegated' | 'contract'
+
 /**
- * Checks if the address is a contract.
+ * The kind of account with `code`, and the contract a delegated EOA delegates
+ * to.
+ */
+export function getAccountKind (code: string): { accountKind: AccountKind, delegate?: string } {
+  if (code === '0x') {
+    return { accountKind: 'eoa' }
+  }
+  if (code.length === 48 && code.toLowerCase().startsWith(EIP7702_DESIGNATOR)) {
+    return { accountKind: 'delegated', delegate: getAddress(`0x${code.slice(8)}`) }
+  }
+  return { accountKind: 'contract' }
+}
+
+/**
+ * Checks if the address is a contract. EOAs that delegate to a contract with EIP-7702 are not contracts.
  */
 export function addressIsContract (networks: Network[], chainId: string, params: addressIsContractParams): BuiltRule {
-  const rule = async (address?: string): Promise<RuleResult> => {
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
     const ruleName = `Address is contract: ${address}`
     if (address === undefined || address === null || address === '') {
       throw new Error('`address` is required')
     }
     try {
-      const provider = getProviderByChainId(networks, chainId)
-      if (provider === undefined) {
-        throw new Error(`No provider found for chainId: ${chainId}`)
-      }
-      const code = await provider.getCode(address)
-      const success = code !== '0x'
-      return { name: ruleName, success }
+      const code = await getCode(networks, chainId, context, address)
+      const details = getAccountKind(code)
+      const success = details.accountKind === 'contract'
+      return { name: ruleName, success, details }
     } catch (err: any) {
-      return { name: ruleName, success: false, error: err.message }
+      return errorResult(ruleName, err)
     }
   }
   return {
@@ -483,28 +829,29 @@ export function addressIsContract (networks: Network[], chainId: string, params:
   }
 }
 
-// eslint-disable-next-line @typescript-eslint/no-empty-interface
-export interface addressIsEOAParams {}
+export interface addressIsEOAParams {
+  // Whether EOAs that delegate to a contract with EIP-7702 pass, defaults to
+  // true
+  allowDelegated?: boolean
+}
 
 /**
- * Checks if the address is EOA.
+ * Checks if the address is EOA, including EOAs that delegate to a contract with EIP-7702 unless `allowDelegated` is
+ * false.
  */
 export function addressIsEOA (networks: Network[], chainId: string, params: addressIsEOAParams): BuiltRule {
-  const rule = async (address?: string): Promise<RuleResult> => {
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
     const ruleName = `Address is EOA: ${address}`
     if (address === undefined || address === null || address === '') {
       throw new Error('`address` is required')
     }
     try {
-      const provider = getProviderByChainId(networks, chainId)
-      if (provider === undefined) {
-        throw new Error(`No provider found for chainId: ${chainId}`)
-      }
-      const code = await provider.getCode(address)
-      const success = code === '0x'
-      return { name: ruleName, success }
+      const code = await getCode(networks, chainId, context, address)
+      const details = getAccountKind(code)
+      const success = details.accountKind === 'eoa' || (details.accountKind === 'delegated' && params.allowDelegated !== false)
+      return { name: ruleName, success, details }
     } catch (err: any) {
-      return { name: ruleName, success: false, error: err.message }
+      return errorResult(ruleName, err)
     }
   }
   return {
@@ -536,15 +883,15 @@ export function callContract (networks: Network[], chainId: string, params: call
     throw new Error('`abi` is required')
   }
 
-  const rule = async (...ruleParams: any[]): Promise<RuleResult> => {
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
     const ruleName = `callContract ${params.contractAddress} ${params.functionName}`
     try {
-      const provider = getProviderByChainId(networks, chainId)
-      if (provider === undefined) {
-        throw new Error(`No provider found for chainId: ${chainId}`)
-      }
-      const contract = new ethers.Contract(params.contractAddress, params.abi, provider)
-      const rawResult = await contract[params.functionName](...ruleParams)
+      const rawResult = await readContract(networks, chainId, context, {
+        address: params.contractAddress,
+        abi: params.abi,
+        functionName: params.functionName,
+        args: address === undefined ? [] : [address]
+      })
       let success = false
 
       if (typeof rawResult === 'boolean') {
@@ -591,7 +938,7 @@ export function callContract (networks: Network[], chainId: string, params: call
       }
       return { name: ruleName, success }
     } catch (err: any) {
-      return { name: ruleName, success: false, error: err.message }
+      return errorResult(ruleName, err)
     }
   }
 
@@ -609,3 +956,1661 @@ export function callContract (networks: Network[], chainId: string, params: call
     }
   }
 }
+
+export interface erc1155BalanceParams {
+  tokenAddress: string
+  tokenId: bigint
+  value: bigint
+  compareType: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+}
+
+/**
+ * Checks if `address` holds an ERC-1155 balance of `tokenId` that satisfies the condition defined by compareType and value.
+ */
+export function erc1155Balance (networks: Network[], chainId: string, params: erc1155BalanceParams): BuiltRule {
+  if (params.tokenAddress === undefined || params.tokenAddress === null) {
+    throw new Error('`tokenAddress` is required')
+  }
+  if (params.tokenId === undefined || params.tokenId === null) {
+    throw new Error('`tokenId` is required')
+  }
+  if (params.value === undefined || params.value === null) {
+    throw new Error('`value` is required')
+  }
+  if (!['eq', 'gt', 'gte', 'lt', 'lte'].includes(params.compareType)) {
+    throw new Error('`compareType` is required and must be one of eq, gt, gte, lt, lte')
+  }
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `ERC1155 balance ${params.compareType} ${params.value} (token: ${params.tokenAddress} #${params.tokenId})`
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const balance = await readContract(networks, chainId, context, {
+        address: params.tokenAddress,
+        abi: ['function balanceOf(address account, uint256 id) view returns (uint256)'],
+        functionName: 'balanceOf',
+        args: [address, params.tokenId]
+      })
+      const success = compareValues(BigInt(balance.toString()), params.compareType, params.value)
+      return { name: ruleName, success }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'erc1155Balance',
+      params: {
+        tokenAddress: params.tokenAddress,
+        tokenId: params.tokenId.toString(),
+        value: params.value.toString(),
+        compareType: params.compareType
+      },
+      chainId
+    }
+  }
+}
+
+export interface erc1155BalanceOfAnyParams {
+  tokenAddress: string
+  tokenIds: bigint[]
+  value: bigint
+  compareType: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+}
+
+/**
+ * Checks if `address` holds an ERC-1155 balance of any of `tokenIds` that satisfies the condition defined by
+ * compareType and value. The balances are read with a single `balanceOfBatch` call.
+ */
+export function erc1155BalanceOfAny (networks: Network[], chainId: string, params: erc1155BalanceOfAnyParams): BuiltRule {
+  if (params.tokenAddress === undefined || params.tokenAddress === null) {
+    throw new Error('`tokenAddress` is required')
+  }
+  if (params.tokenIds === undefined || params.tokenIds === null || params.tokenIds.length === 0) {
+    throw new Error('`tokenIds` is required')
+  }
+  if (params.value === undefined || params.value === null) {
+    throw new Error('`value` is required')
+  }
+  if (!['eq', 'gt', 'gte', 'lt', 'lte'].includes(params.compareType)) {
+    throw new Error('`compareType` is required and must be one of eq, gt, gte, lt, lte')
+  }
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `ERC1155 balance ${params.compareType} ${params.value} for any of ${params.tokenIds.length} tokens (token: ${params.tokenAddress})`
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const balances = await readContract(networks, chainId, context, {
+        address: params.tokenAddress,
+        abi: ['function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])'],
+        functionName: 'balanceOfBatch',
+        args: [params.tokenIds.map(() => address), params.tokenIds]
+      })
+      const success = Array.from(balances as bigint[]).some((balance) => compareValues(BigInt(balance.toString()), params.compareType, params.value))
+      return { name: ruleName, success }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'erc1155BalanceOfAny',
+      params: {
+        tokenAddress: params.tokenAddress,
+        tokenIds: params.tokenIds.map((tokenId) => tokenId.toString()),
+        value: params.value.toString(),
+        compareType: params.compareType
+      },
+      chainId
+    }
+  }
+}
+
+export interface erc20AllowanceParams {
+  tokenAddress: string
+  spender: string
+  // An amount of tokens when `units` is token, e.g. '100.5', otherwise the
+  // raw amount
+  value: bigint | string
+  compareType: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+  units?: 'raw' | 'token'
+}
+
+/**
+ * Checks if `address` has approved `spender` for an ERC-20 allowance that satisfies the condition defined by
+ * compareType and value. With `units: 'token'` the value is converted using the token's decimals.
+ */
+export function erc20Allowance (networks: Network[], chainId: string, params: erc20AllowanceParams): BuiltRule {
+  if (params.tokenAddress === undefined || params.tokenAddress === null) {
+    throw new Error('`tokenAddress` is required')
+  }
+  if (params.spender === undefined || params.spender === null) {
+    throw new Error('`spender` is required')
+  }
+  if (params.value === undefined || params.value === null) {
+    throw new Error('`value` is required')
+  }
+  if (!['eq', 'gt', 'gte', 'lt', 'lte'].includes(params.compareType)) {
+    throw new Error('`compareType` is required and must be one of eq, gt, gte, lt, lte')
+  }
+  if (params.units !== undefined && !['raw', 'token'].includes(params.units)) {
+    throw new Error('`units` must be one of raw, token')
+  }
+  const inTokens = params.units === 'token'
+  const amount = inTokens ? validateAmount(params.value) : params.value.toString()
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `ERC20 allowance ${params.compareType} ${amount}${inTokens ? ' tokens' : ''} (token: ${params.tokenAddress}, spender: ${params.spender})`
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const [allowance, decimals] = await Promise.all([
+        readContract(networks, chainId, context, {
+          address: params.tokenAddress,
+          abi: ['function allowance(address owner, address spender) view returns (uint256)'],
+          functionName: 'allowance',
+          args: [address, params.spender]
+        }),
+        inTokens ? getTokenDecimals(networks, chainId, context, params.tokenAddress) : undefined
+      ])
+      const allowanceBig = BigInt(allowance.toString())
+
+      if (decimals === undefined) {
+        return { name: ruleName, success: compareValues(allowanceBig, params.compareType, amount) }
+      }
+
+      const success = compareValues(allowanceBig, params.compareType, parseUnits(amount, decimals))
+      return { name: ruleName, success, details: { allowance: formatUnits(allowanceBig, decimals), decimals } }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'erc20Allowance',
+      params: withUnits({
+        tokenAddress: params.tokenAddress,
+        spender: params.spender,
+        value: params.value.toString(),
+        compareType: params.compareType
+      }, params.units),
+      chainId
+    }
+  }
+}
+
+// Permit2 is deployed at the same address on every chain
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3'
+
+export interface permit2AllowanceParams {
+  tokenAddress: string
+  spender: string
+  // An amount of tokens when `units` is token, e.g. '100.5', otherwise the
+  // raw amount
+  value: bigint | string
+  compareType: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+  units?: 'raw' | 'token'
+  // Defaults to the canonical Permit2 deployment
+  permit2Address?: string
+}
+
+/**
+ * Checks if `address` has granted `spender` a Permit2 allowance that satisfies the condition defined by
+ * compareType and value.
+ *
+ * The allowance counts as 0 once it has expired at the evaluation's block, and is capped by the token allowance
+ * `address` has given Permit2 itself, since that is all Permit2 can transfer.
+ */
+export function permit2Allowance (networks: Network[], chainId: string, params: permit2AllowanceParams): BuiltRule {
+  if (params.tokenAddress === undefined || params.tokenAddress === null) {
+    throw new Error('`tokenAddress` is required')
+  }
+  if (params.spender === undefined || params.spender === null) {
+    throw new Error('`spender` is required')
+  }
+  if (params.value === undefined || params.value === null) {
+    throw new Error('`value` is required')
+  }
+  if (!['eq', 'gt', 'gte', 'lt', 'lte'].includes(params.compareType)) {
+    throw new Error('`compareType` is required and must be one of eq, gt, gte, lt, lte')
+  }
+  if (params.units !== undefined && !['raw', 'token'].includes(params.units)) {
+    throw new Error('`units` must be one of raw, token')
+  }
+  const inTokens = params.units === 'token'
+  const amount = inTokens ? validateAmount(params.value) : params.value.toString()
+  const permit2Address = params.permit2Address ?? PERMIT2_ADDRESS
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `Permit2 allowance ${params.compareType} ${amount}${inTokens ? ' tokens' : ''} (token: ${params.tokenAddress}, spender: ${params.spender})`
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const [[permitted, expiration], approved, timestamp, decimals] = await Promise.all([
+        readContract(networks, chainId, context, {
+          address: permit2Address,
+          abi: ['function allowance(address user, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)'],
+          functionName: 'allowance',
+          args: [address, params.tokenAddress, params.spender]
+        }),
+        readContract(networks, chainId, context, {
+          address: params.tokenAddress,
+          abi: ['function allowance(address owner, address spender) view returns (uint256)'],
+          functionName: 'allowance',
+          args: [address, permit2Address]
+        }),
+        getBlockTimestamp(networks, chainId, context),
+        inTokens ? getTokenDecimals(networks, chainId, context, params.tokenAddress) : undefined
+      ])
+
+      // Permit2 rejects transfers after the expiration
+      const expired = BigInt(timestamp) > BigInt(expiration)
+      const permittedBig = expired ? 0n : BigInt(permitted.toString())
+      const approvedBig = BigInt(approved.toString())
+      const allowance = permittedBig < approvedBig ? permittedBig : approvedBig
+      const details = { expiration: Number(expiration), expired }
+
+      if (decimals === undefined) {
+        return { name: ruleName, success: compareValues(allowance, params.compareType, amount), details: { allowance: allowance.toString(), ...details } }
+      }
+
+      const success = compareValues(allowance, params.compareType, parseUnits(amount, decimals))
+      return { name: ruleName, success, details: { allowance: formatUnits(allowance, decimals), decimals, ...details } }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  const definitionParams: Record<string, any> = withUnits({
+    tokenAddress: params.tokenAddress,
+    spender: params.spender,
+    value: params.value.toString(),
+    compareType: params.compareType
+  }, params.units)
+  if (params.permit2Address !== undefined) {
+    definitionParams.permit2Address = params.permit2Address
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'permit2Allowance',
+      params: definitionParams,
+      chainId
+    }
+  }
+}
+
+export interface accountAgeParams {
+  value: bigint
+  compareType: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+  // Defaults to seconds
+  unit?: 'seconds' | 'blocks'
+}
+
+/**
+ * Checks if the age of the account satisfies the condition defined by compareType and value. The age is counted from
+ * the first block where the nonce or balance of `address` became non-zero, and is 0 for an account with no activity.
+ *
+ * Finding the first block searches historical state, so the node must be an archive node.
+ */
+export function accountAge (networks: Network[], chainId: string, params: accountAgeParams): BuiltRule {
+  if (params.value === undefined || params.value === null) {
+    throw new Error('`value` is required')
+  }
+  if (!['eq', 'gt', 'gte', 'lt', 'lte'].includes(params.compareType)) {
+    throw new Error('`compareType` is required and must be one of eq, gt, gte, lt, lte')
+  }
+  if (params.unit !== undefined && !['seconds', 'blocks'].includes(params.unit)) {
+    throw new Error('`unit` must be one of seconds, blocks')
+  }
+  const unit = params.unit ?? 'seconds'
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `Account age ${params.compareType} ${params.value} ${unit}`
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const first = await findFirstActivity(networks, chainId, context, address)
+      if (first === undefined) {
+        return { name: ruleName, success: compareValues(0n, params.compareType, params.value), details: { age: 0 } }
+      }
+
+      const age = unit === 'blocks'
+        ? await getBlockNumber(networks, chainId, context) - first.blockNumber
+        : await getBlockTimestamp(networks, chainId, context) - first.timestamp
+      const success = compareValues(BigInt(age), params.compareType, params.value)
+      return { name: ruleName, success, details: { age, firstBlock: first.blockNumber, firstTimestamp: first.timestamp } }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  const definitionParams: Record<string, any> = {
+    value: params.value.toString(),
+    compareType: params.compareType
+  }
+  if (params.unit !== undefined) {
+    definitionParams.unit = params.unit
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'accountAge',
+      params: definitionParams,
+      chainId
+    }
+  }
+}
+
+export interface TypedData {
+  domain: TypedDataDomain
+  types: Record<string, TypedDataField[]>
+  message: Record<string, any>
+}
+
+export interface signedMessageParams {
+  // An EIP-191 personal message, or
+  message?: string
+  // EIP-712 typed data
+  typedData?: TypedData
+}
+
+// Returned by ERC-1271 isValidSignature for a valid signature
+const ERC1271_MAGIC_VALUE = '0x1626ba7e'
+
+/**
+ * Checks that the `signature` evaluate option is a signature by `address` of the message or typed data, proving the
+ * caller controls the address. Signatures of EOAs are checked with ecrecover, and those of smart contract wallets with
+ * ERC-1271 `isValidSignature` on `chainId`.
+ */
+export function signedMessage (networks: Network[], chainId: string, params: signedMessageParams): BuiltRule {
+  if ((params.message === undefined) === (params.typedData === undefined)) {
+    throw new Error('One of `message` or `typedData` is required')
+  }
+  if (params.typedData !== undefined && (params.typedData.domain === undefined || params.typedData.types === undefined || params.typedData.message === undefined)) {
+    throw new Error('`typedData` must have a domain, types and message')
+  }
+
+  let hash: string
+  if (params.typedData !== undefined) {
+    // Signers add the domain type themselves, and ethers rejects it
+    const types = Object.fromEntries(Object.entries(params.typedData.types).filter(([name]) => name !== 'EIP712Domain'))
+    hash = TypedDataEncoder.hash(params.typedData.domain, types, params.typedData.message)
+  } else {
+    hash = hashMessage(params.message ?? '')
+  }
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = params.typedData !== undefined ? 'Signed typed data' : 'Signed message'
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const signature = context?.signature
+      if (signature === undefined) {
+        throw new Error('`signature` is required in the evaluate options')
+      }
+
+      if (recoversTo(hash, signature, address)) {
+        return { name: ruleName, success: true, details: { verifiedBy: 'ecrecover' } }
+      }
+
+      // Smart contract wallets sign with ERC-1271 instead
+      const code = await getCode(networks, chainId, context, address)
+      if (code === '0x') {
+        return { name: ruleName, success: false }
+      }
+
+      let result: string
+      try {
+        result = await readContract(networks, chainId, context, {
+          address,
+          abi: ['function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)'],
+          functionName: 'isValidSignature',
+          args: [hash, signature]
+        })
+      } catch (err: any) {
+        // Wallets may revert for an invalid signature
+        if (isError(err, 'CALL_EXCEPTION')) {
+          return { name: ruleName, success: false }
+        }
+        throw err
+      }
+
+      const success = result === ERC1271_MAGIC_VALUE
+      return success ? { name: ruleName, success, details: { verifiedBy: 'erc1271' } } : { name: ruleName, success }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'signedMessage',
+      params: params.typedData !== undefined ? { typedData: params.typedData } : { message: params.message },
+      chainId
+    }
+  }
+}
+
+/**
+ * Whether `signature` of `hash` recovers to `address`. Signatures that are not
+ * 65 byte ECDSA signatures, such as those of contract wallets, do not.
+ */
+function recoversTo (hash: string, signature: string, address: string): boolean {
+  try {
+    return recoverAddress(hash, signature).toLowerCase() === address.toLowerCase()
+  } catch {
+    return false
+  }
+}
+
+// Blocks per getLogs request, within the range limits of most providers
+export const DEFAULT_LOG_CHUNK_SIZE = 2000
+
+// Replaced by the evaluated address in `hasEvents` filters
+export const ADDRESS_PLACEHOLDER = '$address'
+
+export interface hasEventsParams {
+  contractAddress: string
+  // e.g. 'event Transfer(address indexed from, address indexed to, uint256 value)'
+  event: string
+  // Values of indexed arguments by name. An array matches any of its values
+  filter?: Record<string, string | string[]>
+  fromBlock: number
+  // Defaults to the evaluation's block
+  toBlock?: number
+  value: bigint
+  compareType: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+  chunkSize?: number
+}
+
+/**
+ * Checks if the number of `event` logs emitted by `contractAddress` within the block range satisfies the condition
+ * defined by compareType and value. `$address` in the filter is replaced by the evaluated address.
+ *
+ * Logs are read in chunks of `chunkSize` blocks, stopping once the count decides the result.
+ */
+export function hasEvents (networks: Network[], chainId: string, params: hasEventsParams): BuiltRule {
+  if (params.contractAddress === undefined || params.contractAddress === null) {
+    throw new Error('`contractAddress` is required')
+  }
+  if (params.event === undefined || params.event === null) {
+    throw new Error('`event` is required')
+  }
+  if (!Number.isInteger(params.fromBlock) || params.fromBlock < 0) {
+    throw new Error('`fromBlock` must be a non-negative integer')
+  }
+  if (params.toBlock !== undefined && (!Number.isInteger(params.toBlock) || params.toBlock < params.fromBlock)) {
+    throw new Error('`toBlock` must be an integer no less than `fromBlock`')
+  }
+  if (params.chunkSize !== undefined && (!Number.isInteger(params.chunkSize) || params.chunkSize < 1)) {
+    throw new Error('`chunkSize` must be a positive integer')
+  }
+  if (params.value === undefined || params.value === null) {
+    throw new Error('`value` is required')
+  }
+  if (!['eq', 'gt', 'gte', 'lt', 'lte'].includes(params.compareType)) {
+    throw new Error('`compareType` is required and must be one of eq, gt, gte, lt, lte')
+  }
+
+  const fragment = EventFragment.from(params.event)
+  const iface = new Interface([fragment])
+  const filter = params.filter ?? {}
+  for (const name of Object.keys(filter)) {
+    const input = fragment.inputs.find((input) => input.name === name)
+    if (input === undefined) {
+      throw new Error(`\`filter\` argument ${name} not found in event ${fragment.name}`)
+    }
+    if (input.indexed !== true) {
+      throw new Error(`\`filter\` argument ${name} is not indexed`)
+    }
+  }
+  const chunkSize = params.chunkSize ?? DEFAULT_LOG_CHUNK_SIZE
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `${fragment.name} events ${params.compareType} ${params.value} (contract: ${params.contractAddress}, blocks: ${params.fromBlock}-${params.toBlock ?? 'latest'})`
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const withAddress = (value: string): string => value === ADDRESS_PLACEHOLDER ? address : value
+      const values = fragment.inputs.map((input) => {
+        const value = filter[input.name]
+        if (value === undefined) {
+          return null
+        }
+        return Array.isArray(value) ? value.map(withAddress) : withAddress(value)
+      })
+      const topics = iface.encodeFilterTopics(fragment, values)
+
+      // Blocks after the evaluation's block are not part of the snapshot
+      const blockNumber = await getBlockNumber(networks, chainId, context)
+      const toBlock = Math.min(params.toBlock ?? blockNumber, blockNumber)
+
+      let count = 0n
+      for (let fromBlock = params.fromBlock; fromBlock <= toBlock && !isCountDecided(count, params.compareType, BigInt(params.value)); fromBlock += chunkSize) {
+        count += BigInt(await getLogCount(networks, chainId, context, {
+          address: params.contractAddress,
+          topics,
+          fromBlock,
+          toBlock: Math.min(fromBlock + chunkSize - 1, toBlock)
+        }))
+      }
+
+      const success = compareValues(count, params.compareType, params.value)
+      return { name: ruleName, success, details: { count: count.toString() } }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  const definitionParams: Record<string, any> = {
+    contractAddress: params.contractAddress,
+    event: params.event,
+    fromBlock: params.fromBlock,
+    value: params.value.toString(),
+    compareType: params.compareType
+  }
+  if (params.filter !== undefined) {
+    definitionParams.filter = params.filter
+  }
+  if (params.toBlock !== undefined) {
+    definitionParams.toBlock = params.toBlock
+  }
+  if (params.chunkSize !== undefined) {
+    definitionParams.chunkSize = params.chunkSize
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'hasEvents',
+      params: definitionParams,
+      chainId
+    }
+  }
+}
+
+/**
+ * Whether counting more logs can no longer change the result of comparing
+ * `count` with `value`, since the count only grows.
+ */
+function isCountDecided (count: bigint, compareType: string, value: bigint): boolean {
+  if (compareType === 'gte') {
+    return count >= value
+  }
+  return count > value
+}
+
+export interface addressInListParams {
+  addresses: string[]
+}
+
+/**
+ * Build the set of lowercased addresses of a list rule, so matching ignores
+ * the checksum.
+ */
+function toAddressSet (addresses: string[]): Set<string> {
+  if (!Array.isArray(addresses)) {
+    throw new Error('`addresses` is required')
+  }
+  for (const address of addresses) {
+    if (typeof address !== 'string' || !isAddress(address.toLowerCase())) {
+      throw new Error(`Invalid address in \`addresses\`: ${address}`)
+    }
+  }
+  return new Set(addresses.map((address) => address.toLowerCase()))
+}
+
+/**
+ * Checks if `address` is one of `addresses`, ignoring the checksum.
+ */
+export function addressInList (params: addressInListParams): BuiltRule {
+  const addresses = toAddressSet(params.addresses)
+
+  const rule = async (address?: string): Promise<RuleResult> => {
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    return { name: `Address in list of ${addresses.size}`, success: addresses.has(address.toLowerCase()) }
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'addressInList',
+      params: { addresses: params.addresses }
+    }
+  }
+}
+
+export interface addressNotInListParams {
+  addresses: string[]
+}
+
+/**
+ * Checks if `address` is not one of `addresses`, ignoring the checksum.
+ */
+export function addressNotInList (params: addressNotInListParams): BuiltRule {
+  const addresses = toAddressSet(params.addresses)
+
+  const rule = async (address?: string): Promise<RuleResult> => {
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    return { name: `Address not in list of ${addresses.size}`, success: !addresses.has(address.toLowerCase()) }
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'addressNotInList',
+      params: { addresses: params.addresses }
+    }
+  }
+}
+
+export interface merkleMembershipParams {
+  root: string
+  // ABI types of the tree's leaves, defaults to ['address']
+  leafEncoding?: string[]
+  // A contract to check `root` against, e.g. a distributor
+  rootAddress?: string
+  // The function of `rootAddress` returning the root, defaults to merkleRoot
+  rootFunction?: string
+}
+
+/**
+ * Checks that the proof for `root` in the `merkleProofs` evaluate option proves `address` is in the OpenZeppelin
+ * StandardMerkleTree with that root. With leaf values other than the address, the first address of the leaf must be
+ * the evaluated address.
+ *
+ * When `rootAddress` is set, `root` must also match the root the contract returns on `chainId`.
+ */
+export function merkleMembership (networks: Network[], chainId: string, params: merkleMembershipParams): BuiltRule {
+  if (params.root === undefined || params.root === null || !isHexString(params.root, 32)) {
+    throw new Error('`root` is required and must be a 32 byte hex string')
+  }
+  const leafEncoding = params.leafEncoding ?? ['address']
+  const addressIndex = leafEncoding.findIndex((type) => ParamType.from(type).type === 'address')
+  if (addressIndex === -1) {
+    throw new Error('`leafEncoding` must include an address')
+  }
+  const rootFunction = params.rootFunction ?? 'merkleRoot'
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `Merkle membership (root: ${params.root})`
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const proof = getMerkleProof(context, params.root)
+      if (proof === undefined) {
+        throw new Error(`No proof for root ${params.root} in the \`merkleProofs\` evaluate option`)
+      }
+
+      if (params.rootAddress !== undefined) {
+        const root = await readContract(networks, chainId, context, {
+          address: params.rootAddress,
+          abi: [`function ${rootFunction}() view returns (bytes32)`],
+          functionName: rootFunction
+        })
+        if (root.toLowerCase() !== params.root.toLowerCase()) {
+          throw new Error(`\`root\` does not match ${rootFunction}() of ${params.rootAddress}`)
+        }
+      }
+
+      const values = proof.values ?? [address]
+      if (values.length !== leafEncoding.length || String(values[addressIndex]).toLowerCase() !== address.toLowerCase()) {
+        return { name: ruleName, success: false }
+      }
+
+      // StandardMerkleTree leaves are double hashed
+      const leaf = keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(leafEncoding, values)))
+      const root = proof.proof.reduce((node, sibling) => hashPair(node, sibling), leaf)
+      return { name: ruleName, success: root.toLowerCase() === params.root.toLowerCase() }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  const definitionParams: Record<string, any> = { root: params.root }
+  if (params.leafEncoding !== undefined) {
+    definitionParams.leafEncoding = params.leafEncoding
+  }
+  if (params.rootAddress !== undefined) {
+    definitionParams.rootAddress = params.rootAddress
+  }
+  if (params.rootFunction !== undefined) {
+    definitionParams.rootFunction = params.rootFunction
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'merkleMembership',
+      params: definitionParams,
+      chainId
+    }
+  }
+}
+
+function getMerkleProof (context: EvaluationContext | undefined, root: string): MerkleProof | undefined {
+  const proofs = context?.merkleProofs ?? {}
+  const key = Object.keys(proofs).find((key) => key.toLowerCase() === root.toLowerCase())
+  return key === undefined ? undefined : proofs[key]
+}
+
+// Nodes are hashed in sorted order, so proofs do not need the side of each
+// sibling
+function hashPair (a: string, b: string): string {
+  return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]))
+}
+
+export interface storageSlotParams {
+  slot: bigint | string
+  // Compared with the slot as a uint256
+  value: bigint | string
+  compareType: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+  // Defaults to the evaluated address
+  contractAddress?: string
+}
+
+/**
+ * Checks if storage `slot` of the contract satisfies the condition defined by compareType and value.
+ */
+export function storageSlot (networks: Network[], chainId: string, params: storageSlotParams): BuiltRule {
+  if (params.slot === undefined || params.slot === null) {
+    throw new Error('`slot` is required')
+  }
+  if (params.value === undefined || params.value === null) {
+    throw new Error('`value` is required')
+  }
+  if (!['eq', 'gt', 'gte', 'lt', 'lte'].includes(params.compareType)) {
+    throw new Error('`compareType` is required and must be one of eq, gt, gte, lt, lte')
+  }
+  const slot = BigInt(params.slot)
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `Storage slot ${params.slot} ${params.compareType} ${params.value}${params.contractAddress === undefined ? '' : ` at ${params.contractAddress}`}`
+    const contractAddress = params.contractAddress ?? address
+    if (contractAddress === undefined || contractAddress === null || contractAddress === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const value = await getStorageAt(networks, chainId, context, contractAddress, slot)
+      const success = compareValues(BigInt(value), params.compareType, BigInt(params.value))
+      return { name: ruleName, success, details: { value } }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  const definitionParams: Record<string, any> = {
+    slot: params.slot.toString(),
+    value: params.value.toString(),
+    compareType: params.compareType
+  }
+  if (params.contractAddress !== undefined) {
+    definitionParams.contractAddress = params.contractAddress
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'storageSlot',
+      params: definitionParams,
+      chainId
+    }
+  }
+}
+
+// bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1)
+const EIP1967_IMPLEMENTATION_SLOT = 0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbcn
+// bytes32(uint256(keccak256('eip1967.proxy.beacon')) - 1)
+const EIP1967_BEACON_SLOT = 0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50n
+// keccak256('PROXIABLE')
+const EIP1822_IMPLEMENTATION_SLOT = 0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7n
+
+export interface proxyImplementationParams {
+  // Allowed implementations, any implementation passes when unset
+  implementations?: string[]
+  // Defaults to the evaluated address
+  contractAddress?: string
+}
+
+/**
+ * Checks if the contract is an EIP-1967, beacon or EIP-1822 proxy, and that its implementation is one of
+ * `implementations` when set. The kind of proxy and its implementation are returned in the details.
+ */
+export function proxyImplementation (networks: Network[], chainId: string, params: proxyImplementationParams): BuiltRule {
+  const implementations = params.implementations === undefined ? undefined : toAddressSet(params.implementations)
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = implementations === undefined
+      ? `Proxy${params.contractAddress === undefined ? '' : ` at ${params.contractAddress}`}`
+      : `Proxy implementation in list of ${implementations.size}${params.contractAddress === undefined ? '' : ` at ${params.contractAddress}`}`
+    const contractAddress = params.contractAddress ?? address
+    if (contractAddress === undefined || contractAddress === null || contractAddress === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const proxy = await findProxyImplementation(networks, chainId, context, contractAddress)
+      if (proxy === undefined) {
+        return { name: ruleName, success: false }
+      }
+
+      const success = implementations === undefined || implementations.has(proxy.implementation.toLowerCase())
+      return { name: ruleName, success, details: proxy }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  const definitionParams: Record<string, any> = {}
+  if (params.implementations !== undefined) {
+    definitionParams.implementations = params.implementations
+  }
+  if (params.contractAddress !== undefined) {
+    definitionParams.contractAddress = params.contractAddress
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'proxyImplementation',
+      params: definitionParams,
+      chainId
+    }
+  }
+}
+
+/**
+ * Read the implementation of a proxy from the slots of each standard in turn,
+ * `undefined` when none is set.
+ */
+async function findProxyImplementation (networks: Network[], chainId: string, context: EvaluationContext | undefined, address: string): Promise<{ kind: string, implementation: string } | undefined> {
+  const slotAddress = async (slot: bigint): Promise<string | undefined> => {
+    const value = getAddress(dataSlice(await getStorageAt(networks, chainId, context, address, slot), 12))
+    return value === ZeroAddress ? undefined : value
+  }
+
+  const implementation = await slotAddress(EIP1967_IMPLEMENTATION_SLOT)
+  if (implementation !== undefined) {
+    return { kind: 'eip1967', implementation }
+  }
+
+  const beacon = await slotAddress(EIP1967_BEACON_SLOT)
+  if (beacon !== undefined) {
+    const beaconImplementation: string = await readContract(networks, chainId, context, {
+      address: beacon,
+      abi: ['function implementation() view returns (address)'],
+      functionName: 'implementation'
+    })
+    return { kind: 'beacon', implementation: beaconImplementation }
+  }
+
+  const proxiable = await slotAddress(EIP1822_IMPLEMENTATION_SLOT)
+  if (proxiable !== undefined) {
+    return { kind: 'eip1822', implementation: proxiable }
+  }
+
+  return undefined
+}
+
+export interface codeHashParams {
+  // Allowed keccak256 hashes of the runtime bytecode
+  codeHashes: string[]
+  // Defaults to the evaluated address
+  contractAddress?: string
+}
+
+/**
+ * Checks if the keccak256 hash of the contract's runtime bytecode is one of `codeHashes`. Addresses without code fail.
+ */
+export function codeHash (networks: Network[], chainId: string, params: codeHashParams): BuiltRule {
+  if (!Array.isArray(params.codeHashes) || params.codeHashes.length === 0) {
+    throw new Error('`codeHashes` is required')
+  }
+  for (const hash of params.codeHashes) {
+    if (!isHexString(hash, 32)) {
+      throw new Error(`Invalid hash in \`codeHashes\`: ${hash}`)
+    }
+  }
+  const codeHashes = new Set(params.codeHashes.map((hash) => hash.toLowerCase()))
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `Code hash in list of ${codeHashes.size}${params.contractAddress === undefined ? '' : ` at ${params.contractAddress}`}`
+    const contractAddress = params.contractAddress ?? address
+    if (contractAddress === undefined || contractAddress === null || contractAddress === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const code = await getCode(networks, chainId, context, contractAddress)
+      if (code === '0x') {
+        return { name: ruleName, success: false }
+      }
+
+      const hash = keccak256(code)
+      return { name: ruleName, success: codeHashes.has(hash), details: { codeHash: hash } }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  const definitionParams: Record<string, any> = { codeHashes: params.codeHashes }
+  if (params.contractAddress !== undefined) {
+    definitionParams.contractAddress = params.contractAddress
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'codeHash',
+      params: definitionParams,
+      chainId
+    }
+  }
+}
+
+export interface delegatedToParams {
+  // Approved delegates, any delegate passes when unset
+  implementations?: string[]
+}
+
+/**
+ * Checks if the address is an EOA that delegates to a contract with EIP-7702, and that the contract is one of
+ * `implementations` when set.
+ */
+export function delegatedTo (networks: Network[], chainId: string, params: delegatedToParams): BuiltRule {
+  const implementations = params.implementations === undefined ? undefined : toAddressSet(params.implementations)
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = implementations === undefined ? 'Delegated EOA' : `Delegated EOA to one of ${implementations.size}`
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const code = await getCode(networks, chainId, context, address)
+      const details = getAccountKind(code)
+      const success = details.delegate !== undefined && (implementations === undefined || implementations.has(details.delegate.toLowerCase()))
+      return { name: ruleName, success, details }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'delegatedTo',
+      params: params.implementations === undefined ? {} : { implementations: params.implementations },
+      chainId
+    }
+  }
+}
+
+export interface aggregateBalanceLeg {
+  chainId: string
+  // The ether balance is read when unset
+  tokenAddress?: string
+  // Decimals of the leg's balance, which is scaled to the decimals of the
+  // total when set
+  decimals?: number
+}
+
+export interface aggregateBalanceParams {
+  legs: aggregateBalanceLeg[]
+  // An amount of tokens when `units` is token, e.g. '1000', otherwise the
+  // raw amount of the total
+  value: bigint | string
+  compareType: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+  units?: 'raw' | 'token'
+  // Decimals of the total, defaults to 18
+  decimals?: number
+}
+
+/**
+ * Checks if the sum of the balances of `address` on each leg, e.g. the same token bridged to several chains,
+ * satisfies the condition defined by compareType and value. The balance of each leg is returned in the details.
+ *
+ * Balances scaled to fewer decimals are rounded down.
+ */
+export function aggregateBalance (networks: Network[], params: aggregateBalanceParams): BuiltRule {
+  if (!Array.isArray(params.legs) || params.legs.length === 0) {
+    throw new Error('`legs` is required')
+  }
+  if (params.value === undefined || params.value === null) {
+    throw new Error('`value` is required')
+  }
+  if (!['eq', 'gt', 'gte', 'lt', 'lte'].includes(params.compareType)) {
+    throw new Error('`compareType` is required and must be one of eq, gt, gte, lt, lte')
+  }
+  if (params.units !== undefined && !['raw', 'token'].includes(params.units)) {
+    throw new Error('`units` must be one of raw, token')
+  }
+  const decimals = params.decimals ?? 18
+  if (!isDecimals(decimals)) {
+    throw new Error('`decimals` must be an integer from 0 to 255')
+  }
+  for (const leg of params.legs) {
+    if (leg.chainId === undefined || leg.chainId === null) {
+      throw new Error('`chainId` is required for every leg')
+    }
+    if (getProviderByChainId(networks, leg.chainId) === undefined) {
+      throw new Error(`Chain ID ${leg.chainId} not found in networks`)
+    }
+    if (leg.decimals !== undefined && !isDecimals(leg.decimals)) {
+      throw new Error('`decimals` must be an integer from 0 to 255')
+    }
+  }
+  const inTokens = params.units === 'token'
+  const amount = inTokens ? validateAmount(params.value) : params.value.toString()
+  const value = inTokens ? parseUnits(amount, decimals) : BigInt(amount)
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `Aggregate balance ${params.compareType} ${amount}${inTokens ? ' tokens' : ''} across ${params.legs.length} legs`
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const legs = await Promise.all(params.legs.map(async (leg) => {
+        const balance = leg.tokenAddress === undefined
+          ? await getBalance(networks, leg.chainId, context, address)
+          : BigInt((await readContract(networks, leg.chainId, context, {
+            address: leg.tokenAddress,
+            abi: ['function balanceOf(address) view returns (uint256)'],
+            functionName: 'balanceOf',
+            args: [address]
+          })).toString())
+        const normalized = leg.decimals === undefined ? balance : scaleDecimals(balance, leg.decimals, decimals)
+        return { ...leg, balance, normalized }
+      }))
+
+      const total = legs.reduce((sum, leg) => sum + leg.normalized, 0n)
+      const success = compareValues(total, params.compareType, value)
+      return {
+        name: ruleName,
+        success,
+        details: {
+          total: total.toString(),
+          legs: legs.map((leg) => ({ ...leg, balance: leg.balance.toString(), normalized: leg.normalized.toString() }))
+        }
+      }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  const definitionParams: Record<string, any> = withUnits({
+    legs: params.legs,
+    value: params.value.toString(),
+    compareType: params.compareType
+  }, params.units)
+  if (params.decimals !== undefined) {
+    definitionParams.decimals = params.decimals
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'aggregateBalance',
+      params: definitionParams
+    }
+  }
+}
+
+// USD values are compared with 18 decimals
+const USD_DECIMALS = 18
+const DEFAULT_MAX_STALENESS = 3600
+
+export interface usdValueAsset {
+  // The ether balance is read when unset
+  tokenAddress?: string
+  // A Chainlink AggregatorV3Interface feed of the asset's price in USD
+  feedAddress: string
+  // Overrides `maxStaleness` for this feed, e.g. for feeds with a 24 hour heartbeat
+  maxStaleness?: number
+}
+
+export interface usdValueParams {
+  assets: usdValueAsset[]
+  // A USD amount, e.g. '500' or '99.99'
+  value: string
+  compareType: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+  // The maximum age of a price in seconds, defaults to 3600
+  maxStaleness?: number
+}
+
+/**
+ * Checks if the USD value of the balances of `address`, priced by Chainlink-style feeds on the same chain, satisfies
+ * the condition defined by compareType and value. The balance, price and value of each asset are returned in the
+ * details.
+ *
+ * A price older than `maxStaleness` at the evaluation's block, or not positive, returns an error. The value of each
+ * asset is rounded down to 18 decimals.
+ */
+export function usdValue (networks: Network[], chainId: string, params: usdValueParams): BuiltRule {
+  if (!Array.isArray(params.assets) || params.assets.length === 0) {
+    throw new Error('`assets` is required')
+  }
+  if (params.value === undefined || params.value === null) {
+    throw new Error('`value` is required')
+  }
+  if (!['eq', 'gt', 'gte', 'lt', 'lte'].includes(params.compareType)) {
+    throw new Error('`compareType` is required and must be one of eq, gt, gte, lt, lte')
+  }
+  for (const staleness of [params.maxStaleness, ...params.assets.map((asset) => asset.maxStaleness)]) {
+    if (staleness !== undefined && (!Number.isInteger(staleness) || staleness < 0)) {
+      throw new Error('`maxStaleness` must be a non-negative integer')
+    }
+  }
+  for (const asset of params.assets) {
+    if (asset.feedAddress === undefined || asset.feedAddress === null) {
+      throw new Error('`feedAddress` is required for every asset')
+    }
+  }
+  const amount = validateAmount(params.value)
+  const value = parseUnits(amount, USD_DECIMALS)
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `USD value ${params.compareType} ${amount} across ${params.assets.length} assets`
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const timestamp = await getBlockTimestamp(networks, chainId, context)
+      const assets = await Promise.all(params.assets.map(async (asset) => {
+        const [balance, tokenDecimals, [, answer, , updatedAt], feedDecimals] = await Promise.all([
+          asset.tokenAddress === undefined
+            ? getBalance(networks, chainId, context, address)
+            : readContract(networks, chainId, context, {
+              address: asset.tokenAddress,
+              abi: ['function balanceOf(address) view returns (uint256)'],
+              functionName: 'balanceOf',
+              args: [address]
+            }),
+          asset.tokenAddress === undefined ? 18 : getTokenDecimals(networks, chainId, context, asset.tokenAddress),
+          readContract(networks, chainId, context, {
+            address: asset.feedAddress,
+            abi: ['function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)'],
+            functionName: 'latestRoundData'
+          }),
+          getTokenDecimals(networks, chainId, context, asset.feedAddress)
+        ])
+
+        const price = BigInt(answer.toString())
+        if (price <= 0n) {
+          throw new Error(`Price feed ${asset.feedAddress} returned an invalid price: ${price}`)
+        }
+        const maxStaleness = asset.maxStaleness ?? params.maxStaleness ?? DEFAULT_MAX_STALENESS
+        if (timestamp - Number(updatedAt) > maxStaleness) {
+          throw new Error(`Price feed ${asset.feedAddress} is stale, last updated at ${updatedAt}`)
+        }
+
+        const balanceBig = BigInt(balance.toString())
+        const usd = scaleDecimals(balanceBig * price, tokenDecimals + feedDecimals, USD_DECIMALS)
+        return { asset, balance: balanceBig, tokenDecimals, price, feedDecimals, usd }
+      }))
+
+      const total = assets.reduce((sum, asset) => sum + asset.usd, 0n)
+      const success = compareValues(total, params.compareType, value)
+      return {
+        name: ruleName,
+        success,
+        details: {
+          total: formatUnits(total, USD_DECIMALS),
+          assets: assets.map(({ asset, balance, tokenDecimals, price, feedDecimals, usd }) => ({
+            ...(asset.tokenAddress === undefined ? {} : { tokenAddress: asset.tokenAddress }),
+            feedAddress: asset.feedAddress,
+            balance: formatUnits(balance, tokenDecimals),
+            price: formatUnits(price, feedDecimals),
+            value: formatUnits(usd, USD_DECIMALS)
+          }))
+        }
+      }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  const definitionParams: Record<string, any> = {
+    assets: params.assets,
+    value: amount,
+    compareType: params.compareType
+  }
+  if (params.maxStaleness !== undefined) {
+    definitionParams.maxStaleness = params.maxStaleness
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'usdValue',
+      params: definitionParams,
+      chainId
+    }
+  }
+}
+
+export interface vaultPositionParams {
+  // An ERC-4626 vault
+  vaultAddress: string
+  // An amount of the underlying asset in tokens when `units` is token, e.g. '100.5', otherwise the raw amount
+  value: bigint | string
+  compareType: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+  units?: 'raw' | 'token'
+  // Add the balance of the underlying asset held by `address`
+  includeWalletBalance?: boolean
+}
+
+/**
+ * Checks if the underlying assets of the shares `address` holds in an ERC-4626 vault, optionally plus its balance of
+ * the underlying asset, satisfy the condition defined by compareType and value.
+ */
+export function vaultPosition (networks: Network[], chainId: string, params: vaultPositionParams): BuiltRule {
+  if (params.vaultAddress === undefined || params.vaultAddress === null) {
+    throw new Error('`vaultAddress` is required')
+  }
+  if (params.value === undefined || params.value === null) {
+    throw new Error('`value` is required')
+  }
+  if (!['eq', 'gt', 'gte', 'lt', 'lte'].includes(params.compareType)) {
+    throw new Error('`compareType` is required and must be one of eq, gt, gte, lt, lte')
+  }
+  if (params.units !== undefined && !['raw', 'token'].includes(params.units)) {
+    throw new Error('`units` must be one of raw, token')
+  }
+  const inTokens = params.units === 'token'
+  const amount = inTokens ? validateAmount(params.value) : params.value.toString()
+  const includeWalletBalance = params.includeWalletBalance === true
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `Vault position ${params.compareType} ${amount}${inTokens ? ' tokens' : ''} (vault: ${params.vaultAddress}${includeWalletBalance ? ', with wallet balance' : ''})`
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const [shares, assetAddress] = await Promise.all([
+        readContract(networks, chainId, context, {
+          address: params.vaultAddress,
+          abi: ['function balanceOf(address) view returns (uint256)'],
+          functionName: 'balanceOf',
+          args: [address]
+        }),
+        includeWalletBalance || inTokens
+          ? readContract(networks, chainId, context, {
+            address: params.vaultAddress,
+            abi: ['function asset() view returns (address)'],
+            functionName: 'asset'
+          })
+          : undefined
+      ])
+
+      const [assets, walletBalance, decimals] = await Promise.all([
+        readContract(networks, chainId, context, {
+          address: params.vaultAddress,
+          abi: ['function convertToAssets(uint256 shares) view returns (uint256)'],
+          functionName: 'convertToAssets',
+          args: [shares]
+        }),
+        includeWalletBalance
+          ? readContract(networks, chainId, context, {
+            address: assetAddress,
+            abi: ['function balanceOf(address) view returns (uint256)'],
+            functionName: 'balanceOf',
+            args: [address]
+          })
+          : undefined,
+        inTokens ? getTokenDecimals(networks, chainId, context, assetAddress) : undefined
+      ])
+
+      const assetsBig = BigInt(assets.toString())
+      const walletBig = walletBalance === undefined ? undefined : BigInt(walletBalance.toString())
+      const total = assetsBig + (walletBig ?? 0n)
+      const format = (value: bigint): string => decimals === undefined ? value.toString() : formatUnits(value, decimals)
+
+      const details: Record<string, any> = { shares: shares.toString(), assets: format(assetsBig) }
+      if (walletBig !== undefined) {
+        details.walletBalance = format(walletBig)
+      }
+      details.total = format(total)
+      if (decimals !== undefined) {
+        details.decimals = decimals
+      }
+
+      const success = compareValues(total, params.compareType, decimals === undefined ? amount : parseUnits(amount, decimals))
+      return { name: ruleName, success, details }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  const definitionParams: Record<string, any> = withUnits({
+    vaultAddress: params.vaultAddress,
+    value: params.value.toString(),
+    compareType: params.compareType
+  }, params.units)
+  if (params.includeWalletBalance !== undefined) {
+    definitionParams.includeWalletBalance = params.includeWalletBalance
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'vaultPosition',
+      params: definitionParams,
+      chainId
+    }
+  }
+}
+
+export interface votingPowerParams {
+  // An ERC20Votes or ERC721Votes token
+  tokenAddress: string
+  // An amount of votes in tokens when `units` is token, e.g. '100.5', otherwise the raw amount
+  value: bigint | string
+  compareType: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+  units?: 'raw' | 'token'
+  // A past block number, or timestamp for tokens with a timestamp clock, to read the votes at with getPastVotes
+  timepoint?: number
+}
+
+/**
+ * Checks if the votes delegated to `address` satisfy the condition defined by compareType and value. The current
+ * votes are read with getVotes, or the votes at `timepoint` with getPastVotes, e.g. at a proposal's snapshot.
+ */
+export function votingPower (networks: Network[], chainId: string, params: votingPowerParams): BuiltRule {
+  if (params.tokenAddress === undefined || params.tokenAddress === null) {
+    throw new Error('`tokenAddress` is required')
+  }
+  if (params.value === undefined || params.value === null) {
+    throw new Error('`value` is required')
+  }
+  if (!['eq', 'gt', 'gte', 'lt', 'lte'].includes(params.compareType)) {
+    throw new Error('`compareType` is required and must be one of eq, gt, gte, lt, lte')
+  }
+  if (params.units !== undefined && !['raw', 'token'].includes(params.units)) {
+    throw new Error('`units` must be one of raw, token')
+  }
+  if (params.timepoint !== undefined && (!Number.isInteger(params.timepoint) || params.timepoint < 0)) {
+    throw new Error('`timepoint` must be a non-negative integer')
+  }
+  const inTokens = params.units === 'token'
+  const amount = inTokens ? validateAmount(params.value) : params.value.toString()
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `Voting power ${params.compareType} ${amount}${inTokens ? ' tokens' : ''} (token: ${params.tokenAddress}${params.timepoint === undefined ? '' : `, at: ${params.timepoint}`})`
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const [votes, decimals] = await Promise.all([
+        params.timepoint === undefined
+          ? readContract(networks, chainId, context, {
+            address: params.tokenAddress,
+            abi: ['function getVotes(address account) view returns (uint256)'],
+            functionName: 'getVotes',
+            args: [address]
+          })
+          : readContract(networks, chainId, context, {
+            address: params.tokenAddress,
+            abi: ['function getPastVotes(address account, uint256 timepoint) view returns (uint256)'],
+            functionName: 'getPastVotes',
+            args: [address, params.timepoint]
+          }),
+        inTokens ? getTokenDecimals(networks, chainId, context, params.tokenAddress) : undefined
+      ])
+      const votesBig = BigInt(votes.toString())
+
+      if (decimals === undefined) {
+        return { name: ruleName, success: compareValues(votesBig, params.compareType, amount), details: { votes: votesBig.toString() } }
+      }
+
+      const success = compareValues(votesBig, params.compareType, parseUnits(amount, decimals))
+      return { name: ruleName, success, details: { votes: formatUnits(votesBig, decimals), decimals } }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  const definitionParams: Record<string, any> = withUnits({
+    tokenAddress: params.tokenAddress,
+    value: params.value.toString(),
+    compareType: params.compareType
+  }, params.units)
+  if (params.timepoint !== undefined) {
+    definitionParams.timepoint = params.timepoint
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'votingPower',
+      params: definitionParams,
+      chainId
+    }
+  }
+}
+
+export interface delegatesToParams {
+  // An ERC20Votes or ERC721Votes token
+  tokenAddress: string
+  // Any delegate other than the zero address passes when unset
+  delegates?: string[]
+}
+
+/**
+ * Checks if `address` has delegated its votes on a token to one of `delegates`, ignoring the checksum. The current
+ * delegate is returned in the details.
+ */
+export function delegatesTo (networks: Network[], chainId: string, params: delegatesToParams): BuiltRule {
+  if (params.tokenAddress === undefined || params.tokenAddress === null) {
+    throw new Error('`tokenAddress` is required')
+  }
+  const delegates = params.delegates === undefined ? undefined : toAddressSet(params.delegates)
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = delegates === undefined
+      ? `Delegates votes (token: ${params.tokenAddress})`
+      : `Delegates votes to one of ${delegates.size} (token: ${params.tokenAddress})`
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      const delegate: string = await readContract(networks, chainId, context, {
+        address: params.tokenAddress,
+        abi: ['function delegates(address account) view returns (address)'],
+        functionName: 'delegates',
+        args: [address]
+      })
+      const success = delegate !== ZeroAddress && (delegates === undefined || delegates.has(delegate.toLowerCase()))
+      return { name: ruleName, success, details: { delegate } }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  const definitionParams: Record<string, any> = { tokenAddress: params.tokenAddress }
+  if (params.delegates !== undefined) {
+    definitionParams.delegates = params.delegates
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'delegatesTo',
+      params: definitionParams,
+      chainId
+    }
+  }
+}
+
+export interface safeThresholdParams {
+  value: bigint
+  compareType: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'
+  // Defaults to the evaluated address
+  safeAddress?: string
+}
+
+/**
+ * Checks if the address is a Safe whose signature threshold satisfies the condition defined by compareType and value.
+ * The threshold and owners are returned in the details. An address that is not a Safe fails.
+ */
+export function safeThreshold (networks: Network[], chainId: string, params: safeThresholdParams): BuiltRule {
+  if (params.value === undefined || params.value === null) {
+    throw new Error('`value` is required')
+  }
+  if (!['eq', 'gt', 'gte', 'lt', 'lte'].includes(params.compareType)) {
+    throw new Error('`compareType` is required and must be one of eq, gt, gte, lt, lte')
+  }
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `Safe threshold ${params.compareType} ${params.value}${params.safeAddress === undefined ? '' : ` (safe: ${params.safeAddress})`}`
+    const safeAddress = params.safeAddress ?? address
+    if (safeAddress === undefined || safeAddress === null || safeAddress === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      let threshold: bigint
+      let owners: string[]
+      try {
+        [threshold, owners] = await Promise.all([
+          readContract(networks, chainId, context, {
+            address: safeAddress,
+            abi: ['function getThreshold() view returns (uint256)'],
+            functionName: 'getThreshold'
+          }),
+          readContract(networks, chainId, context, {
+            address: safeAddress,
+            abi: ['function getOwners() view returns (address[])'],
+            functionName: 'getOwners'
+          })
+        ])
+      } catch (err: any) {
+        // Accounts without the Safe functions revert or return no data
+        if (isError(err, 'CALL_EXCEPTION') || isError(err, 'BAD_DATA')) {
+          return { name: ruleName, success: false }
+        }
+        throw err
+      }
+
+      const success = compareValues(BigInt(threshold), params.compareType, params.value)
+      return { name: ruleName, success, details: { threshold: Number(threshold), owners: [...owners] } }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  const definitionParams: Record<string, any> = {
+    value: params.value.toString(),
+    compareType: params.compareType
+  }
+  if (params.safeAddress !== undefined) {
+    definitionParams.safeAddress = params.safeAddress
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'safeThreshold',
+      params: definitionParams,
+      chainId
+    }
+  }
+}
+
+export interface safeOwnerParams {
+  safeAddress: string
+  // Evaluated against the Safe when the address is one of its owners
+  rule?: BuiltRule
+}
+
+/**
+ * Checks if `address` is an owner of the Safe at `safeAddress`. When `rule` is set, the nested rule is then evaluated
+ * against the Safe, e.g. to check that a Safe the address co-owns holds an NFT, and must pass too.
+ */
+export function safeOwner (networks: Network[], chainId: string, params: safeOwnerParams): BuiltRule {
+  if (params.safeAddress === undefined || params.safeAddress === null) {
+    throw new Error('`safeAddress` is required')
+  }
+
+  const rule = async (address?: string, context?: EvaluationContext): Promise<RuleResult> => {
+    const ruleName = `Owner of Safe ${params.safeAddress}`
+    if (address === undefined || address === null || address === '') {
+      throw new Error('`address` is required')
+    }
+    try {
+      let isOwner: boolean
+      try {
+        isOwner = await readContract(networks, chainId, context, {
+          address: params.safeAddress,
+          abi: ['function isOwner(address owner) view returns (bool)'],
+          functionName: 'isOwner',
+          args: [address]
+        })
+      } catch (err: any) {
+        // Accounts without the Safe functions revert or return no data
+        if (isError(err, 'CALL_EXCEPTION') || isError(err, 'BAD_DATA')) {
+          return { name: ruleName, success: false }
+        }
+        throw err
+      }
+
+      if (!isOwner || params.rule === undefined) {
+        return { name: ruleName, success: isOwner }
+      }
+
+      const result = await runRule(params.rule, 0, params.safeAddress, context)
+      if (result.error !== undefined) {
+        const indeterminate = result.indeterminate === true ? { indeterminate: true } : {}
+        return { name: ruleName, success: false, error: result.error, ...indeterminate, ruleResults: [result] }
+      }
+      return { name: ruleName, success: result.success, ruleResults: [result] }
+    } catch (err: any) {
+      return errorResult(ruleName, err)
+    }
+  }
+
+  const definitionParams: Record<string, any> = { safeAddress: params.safeAddress }
+  if (params.rule !== undefined) {
+    definitionParams.rule = params.rule.definition
+  }
+
+  return {
+    rule,
+    definition: {
+      type: 'safeOwner',
+      params: definitionParams,
+      chainId
+    }
+  }
+}
+
+function isDecimals (decimals: number): boolean {
+  return Number.isInteger(decimals) && decimals >= 0 && decimals <= 255
+}
+
+function scaleDecimals (amount: bigint, from: number, to: number): bigint {
+  if (to >= from) {
+    return amount * 10n ** BigInt(to - from)
+  }
+  return amount / 10n ** BigInt(from - to)
+}
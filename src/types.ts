@@ -1,14 +1,51 @@
 // src/types.ts
-import { type Provider } from 'ethers'
+import { type BlockTag, type Provider } from 'ethers'
+import { type CacheConfig, type ReadCache } from './cache.js'
+import { type MulticallBatcher } from './multicall.js'
 
 // A rule can be either sync or async
 export interface Rule {
-  (address?: string): Promise<RuleResult> | RuleResult
+  (address?: string, context?: EvaluationContext): Promise<RuleResult> | RuleResult
 }
 
-export interface RuleDefinition {
+// State shared by every rule in one evaluation
+export interface EvaluationContext {
+  // The block every read of a chain is pinned to, keyed by chainId. Chains
+  // without a block are read at the latest block
+  blockNumbers?: Record<string, number>
+  // Multicall3 batchers keyed by chainId
+  multicall?: Record<string, MulticallBatcher>
+  // Cache shared by the engine's evaluations
+  cache?: ReadCache
+  // Retry policy of each chain, keyed by chainId
+  retry?: Record<string, RetryConfig>
+  // Signature the caller made with the evaluated address, checked by
+  // signedMessage rules
+  signature?: string
+  // Merkle proofs of the evaluated address, keyed by root
+  merkleProofs?: Record<string, MerkleProof>
+}
+
+// A proof of a leaf of an OpenZeppelin StandardMerkleTree
+export interface MerkleProof {
+  proof: string[]
+  // Values of the leaf, defaults to the evaluated address
+  values?: any[]
+}
+
+// Options that apply to any rule, stored alongside its definition
+export interface RuleOptions {
+  // Points awarded when the rule passes in scoring mode, defaults to 1
+  weight?: number
+  // Order in short-circuit mode, lower runs first. Defaults to the
+  // estimated cost of the rule type
+  priority?: number
+}
+
+// Composite rules (all, any, not, atLeast) have no chainId of their own
+export interface RuleDefinition extends RuleOptions {
   type: string
-  chainId: string
+  chainId?: string
   params: Record<string, any>
 }
 
@@ -22,21 +59,121 @@ export interface RuleResult {
   name: string
   success: boolean
   error?: string
+  // Set when the outcome could not be determined because the network's
+  // providers failed, as opposed to the rule failing
+  indeterminate?: boolean
+  // Set when the rule was not evaluated because the outcome was already decided
+  skipped?: boolean
+  // The block the rule's chain was read at
+  blockNumber?: number
+  // Rule specific information about the outcome, e.g. the matching token ids
+  details?: Record<string, any>
+  // Results of the nested rules, set by composite rules
+  ruleResults?: RuleResult[]
+}
+
+// The weighted score of multiple rules, set in scoring mode
+export interface ScoreResult {
+  total: number
+  max: number
+  threshold: number
+  passed: boolean
 }
 
 // The result of multiple rules
 export interface EvaluateResult {
   ruleResults: RuleResult[]
   result: boolean
+  score?: ScoreResult
+  // The block each chain used by the rules was read at, keyed by chainId
+  blockNumbers: Record<string, number>
+}
+
+export interface EvaluateOptions {
+  // Evaluate at a historical block, either one tag for every chain or a tag
+  // per chainId
+  blockTag?: BlockTag | Record<string, BlockTag>
+  // Signature of the evaluated address, to prove ownership to signedMessage
+  // rules
+  signature?: string
+  // Proofs for merkleMembership rules, keyed by root
+  merkleProofs?: Record<string, MerkleProof>
+}
+
+export interface EvaluateManyOptions extends EvaluateOptions {
+  // Addresses evaluated at once, defaults to 10
+  concurrency?: number
+  // Addresses to skip from the start, to resume an interrupted run
+  offset?: number
+  // Called with the summary once every address has been evaluated
+  onSummary?(summary: EvaluateManySummary): void
+}
+
+// The result for one address of evaluateMany
+export interface EvaluateManyResult extends EvaluateResult {
+  address: string
+  // Position of the address in the input
+  index: number
+  // Set when the address could not be evaluated at all
+  error?: string
+}
+
+// Counts of the results of evaluateMany. An address that did not pass is
+// errored if any of its rules, or its evaluation, errored
+export interface EvaluateManySummary {
+  total: number
+  passed: number
+  failed: number
+  errored: number
 }
 
 export interface Network {
   provider: Provider
   chainId: string
+  // Providers tried in order when `provider` fails
+  fallbackProviders?: Provider[]
+  // Multicall3 address, defaults to the canonical deployment
+  multicallAddress?: string
+  // Upper bound on the requests in flight to this network at once
+  maxConcurrentRequests?: number
+  // Upper bound on the requests started per second, may be fractional
+  requestsPerSecond?: number
 }
 
 export type Networks = Network[]
 
+export interface ScoringConfig {
+  // Minimum total weight of passing rules for the evaluation to pass
+  threshold: number
+}
+
+export interface RetryConfig {
+  // Time to wait for a single request in milliseconds, defaults to 10000
+  timeout?: number
+  // Times to retry once every provider has failed, defaults to 2
+  retries?: number
+  // Delay before the first retry in milliseconds, doubled for each later
+  // retry. Defaults to 250
+  backoff?: number
+}
+
+// A retry policy for every network, with overrides per chainId
+export interface EngineRetryConfig extends RetryConfig {
+  networks?: Record<string, RetryConfig>
+}
+
 export interface EngineConfig {
   networks: Networks
+  // When set, the result is decided by the weighted score instead of
+  // requiring every rule to pass
+  scoring?: ScoringConfig
+  // Evaluate rules one at a time, cheapest first, and stop as soon as the
+  // result is decided
+  shortCircuit?: boolean
+  // Batch the eth_calls of each evaluation into Multicall3 requests per chain
+  multicall?: boolean
+  // Cache provider reads across evaluations
+  cache?: CacheConfig
+  // Timeouts, retries and failover of provider requests
+  retry?: EngineRetryConfig
 }
@@ -1,5 +1,6 @@
-import { type Provider } from 'ethers'
-import { type Network } from './types.js'
+import { JsonRpcApiProvider, type Provider } from 'ethers'
+import { InfrastructureError } from './retry.js'
+import { type BuiltRule, type EvaluationContext, type Network, type RuleDefinition, type RuleResult } from './types.js'
 
 export function getProviderByChainId (
   networks: Network[],
@@ -8,3 +9,88 @@ export function getProviderByChainId (
   const network = networks.find((net) => net.chainId === chainId)
   return network?.provider
 }
+
+export function getNetworkByChainId (
+  networks: Network[],
+  chainId: string
+): Network | undefined {
+  return networks.find((net) => net.chainId === chainId)
+}
+
+/**
+ * The failed result of a rule that threw `err`. Errors caused by the
+ * network's providers mark the result as indeterminate.
+ */
+export function errorResult (name: string, err: any): RuleResult {
+  const result: RuleResult = { name, success: false, error: err.message }
+  if (err instanceof InfrastructureError) {
+    result.indeterminate = true
+  }
+  return result
+}
+
+/**
+ * The number of the latest block. ethers serves repeated requests, including
+ * getBlock('latest'), from a cache for 250ms, which can miss a block that was
+ * just mined, so JSON-RPC providers are asked directly.
+ */
+export async function getLatestBlockNumber (provider: Provider): Promise<number> {
+  if (provider instanceof JsonRpcApiProvider) {
+    return Number(await provider.send('eth_blockNumber', []))
+  }
+  const block = await provider.getBlock('latest')
+  if (block === null) {
+    throw new Error('latest block not found')
+  }
+  return block.number
+}
+
+/**
+ * Run a single rule, turning a thrown error into a failed result. The result
+ * records the block the rule's chain was pinned to, if any.
+ */
+export async function runRule (builtRule: BuiltRule, index: number, address?: string, context?: EvaluationContext): Promise<RuleResult> {
+  const { rule, definition } = builtRule
+  let result: RuleResult
+  try {
+    result = await rule(address, context)
+  } catch (err: any) {
+    result = errorResult(`Rule #${index}`, err)
+  }
+
+  const blockNumber = definition.chainId === undefined ? undefined : context?.blockNumbers?.[definition.chainId]
+  if (blockNumber !== undefined && result.blockNumber === undefined) {
+    return { ...result, blockNumber }
+  }
+  return result
+}
+
+/**
+ * Collect every chainId referenced by a definition, including those of
+ * nested rules.
+ */
+export function getDefinitionChainIds (definition: RuleDefinition): string[] {
+  const chainIds: string[] = []
+
+  if (definition.chainId !== undefined) {
+    chainIds.push(definition.chainId)
+  }
+
+  const { params } = definition
+  if (params?.rule !== undefined) {
+    chainIds.push(...getDefinitionChainIds(params.rule))
+  }
+  if (Array.isArray(params?.rules)) {
+    for (const rule of params.rules) {
+      chainIds.push(...getDefinitionChainIds(rule))
+    }
+  }
+  // Cross-chain rules read the chain of each leg
+  if (Array.isArray(params?.legs)) {
+    for (const leg of params.legs) {
+      chainIds.push(leg.chainId)
+    }
+  }
+
+  return chainIds
+}
@@ -1,24 +1,28 @@
 import { z } from 'zod'
-import type { BuiltRule } from './types'
+import type { BuiltRule, RuleDefinition, RuleResult } from './types'
 
 const compareTypeSchema = z.enum(['eq', 'gt', 'gte', 'lt', 'lte'])
+const etherUnitsSchema = z.enum(['wei', 'gwei', 'ether'])
 
 // Params schemas for each rule type
 const walletBalanceParamsSchema = z.object({
   value: z.string(),
-  compareType: compareTypeSchema
+  compareType: compareTypeSchema,
+  units: etherUnitsSchema.optional()
 })
 
 const contractBalanceParamsSchema = z.object({
   contractAddress: z.string(),
   value: z.string(),
-  compareType: compareTypeSchema
+  compareType: compareTypeSchema,
+  units: etherUnitsSchema.optional()
 })
 
 const erc20BalanceParamsSchema = z.object({
   tokenAddress: z.string(),
   value: z.string(),
-  compareType: compareTypeSchema
+  compareType: compareTypeSchema,
+  units: z.enum(['raw', 'token']).optional()
 })
 
 const numTransactionsParamsSchema = z.object({
@@ -27,7 +31,14 @@ const numTransactionsParamsSchema = z.object({
 })
 
 const hasNFTParamsSchema = z.object({
-  nftAddress: z.string()
+  nftAddress: z.string(),
+  value: z.string().optional(),
+  compareType: compareTypeSchema.optional(),
+  tokenIds: z.array(z.string()).min(1).optional(),
+  tokenIdRange: z.object({
+    from: z.string(),
+    to: z.string()
+  }).optional()
 })
 
 const hasNFTTokenIdParamsSchema = z.object({
@@ -36,7 +47,9 @@ const hasNFTTokenIdParamsSchema = z.object({
 })
 
 const addressIsContractParamsSchema = z.object({}) // Empty params
-const addressIsEOAParamsSchema = z.object({}) // Empty params
+const addressIsEOAParamsSchema = z.object({
+  allowDelegated: z.boolean().optional()
+})
 
 const callContractParamsSchema = z.object({
   contractAddress: z.string(),
@@ -46,67 +59,355 @@ const callContractParamsSchema = z.object({
   compareType: compareTypeSchema
 })
 
-const ruleResultSchema = z.object({
+const erc1155BalanceParamsSchema = z.object({
+  tokenAddress: z.string(),
+  tokenId: z.string(),
+  value: z.string(),
+  compareType: compareTypeSchema
+})
+
+const erc1155BalanceOfAnyParamsSchema = z.object({
+  tokenAddress: z.string(),
+  tokenIds: z.array(z.string()).min(1),
+  value: z.string(),
+  compareType: compareTypeSchema
+})
+
+const erc20AllowanceParamsSchema = z.object({
+  tokenAddress: z.string(),
+  spender: z.string(),
+  value: z.string(),
+  compareType: compareTypeSchema,
+  units: z.enum(['raw', 'token']).optional()
+})
+
+const permit2AllowanceParamsSchema = erc20AllowanceParamsSchema.extend({
+  permit2Address: z.string().optional()
+})
+
+const accountAgeParamsSchema = z.object({
+  value: z.string(),
+  compareType: compareTypeSchema,
+  unit: z.enum(['seconds', 'blocks']).optional()
+})
+
+const signedMessageParamsSchema = z.object({
+  message: z.string().optional(),
+  typedData: z.object({
+    domain: z.record(z.any()),
+    types: z.record(z.array(z.object({ name: z.string(), type: z.string() }))),
+    message: z.record(z.any())
+  }).optional()
+}).refine((params) => (params.message === undefined) !== (params.typedData === undefined), {
+  message: 'One of `message` or `typedData` is required'
+})
+
+const hasEventsParamsSchema = z.object({
+  contractAddress: z.string(),
+  event: z.string(),
+  filter: z.record(z.union([z.string(), z.array(z.string())])).optional(),
+  fromBlock: z.number().int().min(0),
+  toBlock: z.number().int().min(0).optional(),
+  value: z.string(),
+  compareType: compareTypeSchema,
+  chunkSize: z.number().int().min(1).optional()
+})
+
+const addressListParamsSchema = z.object({
+  addresses: z.array(z.string())
+})
+
+const merkleMembershipParamsSchema = z.object({
+  root: z.string(),
+  leafEncoding: z.array(z.string()).min(1).optional(),
+  rootAddress: z.string().optional(),
+  rootFunction: z.string().optional()
+})
+
+const storageSlotParamsSchema = z.object({
+  slot: z.string(),
+  value: z.string(),
+  compareType: compareTypeSchema,
+  contractAddress: z.string().optional()
+})
+
+const proxyImplementationParamsSchema = z.object({
+  implementations: z.array(z.string()).optional(),
+  contractAddress: z.string().optional()
+})
+
+const codeHashParamsSchema = z.object({
+  codeHashes: z.array(z.string()).min(1),
+  contractAddress: z.string().optional()
+})
+
+const delegatedToParamsSchema = z.object({
+  implementations: z.array(z.string()).optional()
+})
+
+const aggregateBalanceParamsSchema = z.object({
+  legs: z.array(z.object({
+    chainId: z.string(),
+    tokenAddress: z.string().optional(),
+    decimals: z.number().int().min(0).max(255).optional()
+  })).min(1),
+  value: z.string(),
+  compareType: compareTypeSchema,
+  units: z.enum(['raw', 'token']).optional(),
+  decimals: z.number().int().min(0).max(255).optional()
+})
+
+const usdValueParamsSchema = z.object({
+  assets: z.array(z.object({
+    tokenAddress: z.string().optional(),
+    feedAddress: z.string(),
+    maxStaleness: z.number().int().min(0).optional()
+  })).min(1),
+  value: z.string(),
+  compareType: compareTypeSchema,
+  maxStaleness: z.number().int().min(0).optional()
+})
+
+const vaultPositionParamsSchema = z.object({
+  vaultAddress: z.string(),
+  value: z.string(),
+  compareType: compareTypeSchema,
+  units: z.enum(['raw', 'token']).optional(),
+  includeWalletBalance: z.boolean().optional()
+})
+
+const votingPowerParamsSchema = z.object({
+  tokenAddress: z.string(),
+  value: z.string(),
+  compareType: compareTypeSchema,
+  units: z.enum(['raw', 'token']).optional(),
+  timepoint: z.number().int().min(0).optional()
+})
+
+const delegatesToParamsSchema = z.object({
+  tokenAddress: z.string(),
+  delegates: z.array(z.string()).optional()
+})
+
+// Composite rules nest definitions, so the nested schemas are lazy
+const nestedRuleDefinitionSchema: z.ZodType<RuleDefinition> = z.lazy(() => ruleDefinitionSchema)
+
+const compositeRulesParamsSchema = z.object({
+  rules: z.array(nestedRuleDefinitionSchema).min(1)
+})
+
+const notParamsSchema = z.object({
+  rule: nestedRuleDefinitionSchema
+})
+
+const atLeastParamsSchema = z.object({
+  count: z.number().int().min(1),
+  rules: z.array(nestedRuleDefinitionSchema).min(1)
+}).refine((params) => params.count <= params.rules.length, {
+  message: '`count` is required and must be between 1 and the number of rules'
+})
+
+const safeThresholdParamsSchema = z.object({
+  value: z.string(),
+  compareType: compareTypeSchema,
+  safeAddress: z.string().optional()
+})
+
+const safeOwnerParamsSchema = z.object({
+  safeAddress: z.string(),
+  rule: nestedRuleDefinitionSchema.optional()
+})
+
+const ruleResultSchema: z.ZodType<RuleResult> = z.lazy(() => z.object({
   name: z.string(),
   success: z.boolean(),
-  error: z.string().optional()
-})
+  error: z.string().optional(),
+  indeterminate: z.boolean().optional(),
+  skipped: z.boolean().optional(),
+  blockNumber: z.number().optional(),
+  details: z.record(z.any()).optional(),
+  ruleResults: z.array(ruleResultSchema).optional()
+}))
 
 const ruleFunctionSchema = z.function()
-  .args(z.string().optional())
+  .args(z.string().optional(), z.any().optional())
   .returns(z.union([ruleResultSchema, z.promise(ruleResultSchema)]))
 
+// Options shared by every rule definition
+const ruleOptionsSchema = z.object({
+  weight: z.number().min(0).optional(),
+  priority: z.number().optional()
+})
+
 // A discriminated union based on the "type" property
 export const ruleDefinitionSchema = z.discriminatedUnion('type', [
-  z.object({
+  ruleOptionsSchema.extend({
     type: z.literal('walletBalance'),
     chainId: z.string(),
     params: walletBalanceParamsSchema
   }),
-  z.object({
+  ruleOptionsSchema.extend({
     type: z.literal('contractBalance'),
     chainId: z.string(),
     params: contractBalanceParamsSchema
   }),
-  z.object({
+  ruleOptionsSchema.extend({
     type: z.literal('erc20Balance'),
     chainId: z.string(),
     params: erc20BalanceParamsSchema
   }),
-  z.object({
+  ruleOptionsSchema.extend({
     type: z.literal('numTransactions'),
     chainId: z.string(),
     params: numTransactionsParamsSchema
   }),
-  z.object({
+  ruleOptionsSchema.extend({
     type: z.literal('hasNFT'),
     chainId: z.string(),
     params: hasNFTParamsSchema
   }),
-  z.object({
+  ruleOptionsSchema.extend({
     type: z.literal('hasNFTTokenId'),
     chainId: z.string(),
     params: hasNFTTokenIdParamsSchema
   }),
-  z.object({
+  ruleOptionsSchema.extend({
     type: z.literal('addressIsContract'),
     chainId: z.string(),
     params: addressIsContractParamsSchema
   }),
-  z.object({
+  ruleOptionsSchema.extend({
     type: z.literal('addressIsEOA'),
     chainId: z.string(),
     params: addressIsEOAParamsSchema
   }),
-  z.object({
+  ruleOptionsSchema.extend({
     type: z.literal('callContract'),
     chainId: z.string(),
     params: callContractParamsSchema
   }),
-  z.object({
+  ruleOptionsSchema.extend({
+    type: z.literal('erc1155Balance'),
+    chainId: z.string(),
+    params: erc1155BalanceParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('erc1155BalanceOfAny'),
+    chainId: z.string(),
+    params: erc1155BalanceOfAnyParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('erc20Allowance'),
+    chainId: z.string(),
+    params: erc20AllowanceParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('permit2Allowance'),
+    chainId: z.string(),
+    params: permit2AllowanceParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('accountAge'),
+    chainId: z.string(),
+    params: accountAgeParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('signedMessage'),
+    chainId: z.string(),
+    params: signedMessageParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('hasEvents'),
+    chainId: z.string(),
+    params: hasEventsParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('merkleMembership'),
+    chainId: z.string(),
+    params: merkleMembershipParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('storageSlot'),
+    chainId: z.string(),
+    params: storageSlotParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('proxyImplementation'),
+    chainId: z.string(),
+    params: proxyImplementationParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('codeHash'),
+    chainId: z.string(),
+    params: codeHashParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('delegatedTo'),
+    chainId: z.string(),
+    params: delegatedToParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('usdValue'),
+    chainId: z.string(),
+    params: usdValueParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('vaultPosition'),
+    chainId: z.string(),
+    params: vaultPositionParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('votingPower'),
+    chainId: z.string(),
+    params: votingPowerParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('delegatesTo'),
+    chainId: z.string(),
+    params: delegatesToParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('safeThreshold'),
+    chainId: z.string(),
+    params: safeThresholdParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('safeOwner'),
+    chainId: z.string(),
+    params: safeOwnerParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('aggregateBalance'),
+    params: aggregateBalanceParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('addressInList'),
+    params: addressListParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('addressNotInList'),
+    params: addressListParamsSchema
+  }),
+  ruleOptionsSchema.extend({
     type: z.literal('custom'),
     chainId: z.string(),
     params: z.object({})
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('all'),
+    params: compositeRulesParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('any'),
+    params: compositeRulesParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('not'),
+    params: notParamsSchema
+  }),
+  ruleOptionsSchema.extend({
+    type: z.literal('atLeast'),
+    params: atLeastParamsSchema
   })
 ])
 
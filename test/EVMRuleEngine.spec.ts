@@ -3,8 +3,9 @@
 import { expect } from 'chai'
 import { ethers, type JsonRpcProvider } from 'ethers'
 import { EVMRuleEngine } from '../src/EVMRuleEngine.js'
-import { addressIsEOA, contractBalance, createRulesFromDefinitions, numTransactions, walletBalance } from '../src/rules.js'
-import { type EngineConfig, type Rule, type RuleDefinition } from '../src/types.js'
+import { all, any, atLeast, not } from '../src/composite.js'
+import { addressIsEOA, aggregateBalance, contractBalance, createRulesFromDefinitions, erc20Balance, merkleMembership, numTransactions, signedMessage, walletBalance, withOptions } from '../src/rules.js'
+import { type BuiltRule, type EngineConfig, type EvaluateManyResult, type EvaluateManySummary, type Rule, type RuleDefinition } from '../src/types.js'
 
 /**
  * We'll assume 2 anvil instances are running
@@ -181,6 +182,550 @@ describe('Rule Engine', function () {
     })
   })
 
+  describe('Signatures', function () {
+    it('should pass the signature option to the rules', async function () {
+      const wallet = ethers.Wallet.createRandom()
+      const engine = new EVMRuleEngine(engineConfig, [
+        signedMessage(engineConfig.networks, CHAIN_ID_0, { message: 'Sign in' })
+      ])
+
+      const signed = await engine.evaluate(wallet.address, { signature: await wallet.signMessage('Sign in') })
+      expect(signed.result).to.eq(true)
+
+      const unsigned = await engine.evaluate(wallet.address)
+      expect(unsigned.result).to.eq(false)
+    })
+  })
+
+  describe('Merkle Proofs', function () {
+    it('should pass the merkle proofs option to the rules', async function () {
+      // An OpenZeppelin StandardMerkleTree of three addresses
+      const root = '0xae6afff7b7c4d883d5efd44afa0b98e80317697e8984b4c2de7c54b49c1c4dd4'
+      const proof = ['0xc6ce8ae383124b268df66d71f0af2206e6dafb13eba0b03806eed8a4e7991329']
+      const engine = new EVMRuleEngine(engineConfig, [
+        merkleMembership(engineConfig.networks, CHAIN_ID_0, { root })
+      ])
+
+      const { result } = await engine.evaluate('0x3333333333333333333333333333333333333333', { merkleProofs: { [root]: { proof } } })
+      expect(result).to.eq(true)
+    })
+  })
+
+  describe('Composite Rules', function () {
+    it('should pass an any rule when one branch passes', async function () {
+      const engine = new EVMRuleEngine(engineConfig)
+
+      engine.addRule(any({
+        rules: [
+          walletBalance(engineConfig.networks, CHAIN_ID_0, {
+            value: ethers.parseEther('1000000'),
+            compareType: 'gte'
+          }),
+          addressIsEOA(engineConfig.networks, CHAIN_ID_1, {})
+        ]
+      }))
+
+      const { result, ruleResults } = await engine.evaluate(signer0Addr)
+
+      expect(result).to.eq(true)
+      expect(ruleResults[0].ruleResults).to.have.lengthOf(2)
+      expect(ruleResults[0].ruleResults?.[0].success).to.eq(false)
+      expect(ruleResults[0].ruleResults?.[1].success).to.eq(true)
+    })
+
+    it('should fail an all rule when one branch fails', async function () {
+      const engine = new EVMRuleEngine(engineConfig)
+
+      engine.addRule(all({
+        rules: [
+          addressIsEOA(engineConfig.networks, CHAIN_ID_0, {}),
+          contractBalance(engineConfig.networks, CHAIN_ID_0, {
+            contractAddress,
+            value: ethers.parseEther('2'),
+            compareType: 'gte'
+          })
+        ]
+      }))
+
+      const { result } = await engine.evaluate(signer0Addr)
+      expect(result).to.eq(false)
+    })
+
+    it('should invert a rule with not', async function () {
+      const engine = new EVMRuleEngine(engineConfig)
+
+      engine.addRule(not({
+        rule: addressIsEOA(engineConfig.networks, CHAIN_ID_0, {})
+      }))
+
+      const { result } = await engine.evaluate(contractAddress)
+      expect(result).to.eq(true)
+    })
+
+    it('should not invert a rule that errored', async function () {
+      const engine = new EVMRuleEngine(engineConfig)
+
+      engine.addRule(not({
+        rule: {
+          rule: async () => {
+            throw new Error('Forced test error')
+          },
+          definition: {
+            type: 'custom',
+            params: {},
+            chainId: CHAIN_ID_0
+          }
+        }
+      }))
+
+      const { result, ruleResults } = await engine.evaluate(signer0Addr)
+      expect(result).to.eq(false)
+      expect(ruleResults[0].error).to.eq('Forced test error')
+    })
+
+    it('should evaluate nested atLeast rules', async function () {
+      const engine = new EVMRuleEngine(engineConfig)
+
+      engine.addRule(atLeast({
+        count: 2,
+        rules: [
+          addressIsEOA(engineConfig.networks, CHAIN_ID_0, {}),
+          walletBalance(engineConfig.networks, CHAIN_ID_0, {
+            value: ethers.parseEther('1000000'),
+            compareType: 'gte'
+          }),
+          any({
+            rules: [
+              addressIsEOA(engineConfig.networks, CHAIN_ID_1, {}),
+              numTransactions(engineConfig.networks, CHAIN_ID_1, {
+                value: 1000n,
+                compareType: 'gte'
+              })
+            ]
+          })
+        ]
+      }))
+
+      const { result, ruleResults } = await engine.evaluate(signer0Addr)
+      expect(result).to.eq(true)
+      expect(ruleResults[0].ruleResults?.[2].ruleResults).to.have.lengthOf(2)
+    })
+
+    it('should throw when atLeast count is larger than the number of rules', async function () {
+      expect(() => atLeast({
+        count: 2,
+        rules: [addressIsEOA(engineConfig.networks, CHAIN_ID_0, {})]
+      })).to.throw('`count` is required and must be between 1 and the number of rules')
+    })
+
+    it('should throw when a nested rule uses a network that is not configured', async function () {
+      const engine = new EVMRuleEngine({ networks: [engineConfig.networks[0]] })
+
+      expect(() => {
+        engine.addRule(any({
+          rules: [addressIsEOA(engineConfig.networks, CHAIN_ID_1, {})]
+        }))
+      }).to.throw(`invalid rule - network ${CHAIN_ID_1} not configured`)
+    })
+
+    it('should throw when an aggregate leg uses a network that is not configured', async function () {
+      const engine = new EVMRuleEngine({ networks: [engineConfig.networks[0]] })
+
+      expect(() => {
+        engine.addRule(aggregateBalance(engineConfig.networks, {
+          legs: [{ chainId: CHAIN_ID_0 }, { chainId: CHAIN_ID_1 }],
+          value: 1n,
+          compareType: 'gte'
+        }))
+      }).to.throw(`invalid rule - network ${CHAIN_ID_1} not configured`)
+    })
+  })
+
+  describe('Scoring', function () {
+    const weightedRules = (): BuiltRule[] => [
+      withOptions(addressIsEOA(engineConfig.networks, CHAIN_ID_0, {}), { weight: 10 }),
+      withOptions(numTransactions(engineConfig.networks, CHAIN_ID_0, {
+        value: 50n,
+        compareType: 'gt'
+      }), { weight: 5 })
+    ]
+
+    it('should fail when the score is below the threshold', async function () {
+      const engine = new EVMRuleEngine({ ...engineConfig, scoring: { threshold: 12 } }, weightedRules())
+
+      const { result, score } = await engine.evaluate(signer0Addr)
+
+      expect(result).to.eq(false)
+      expect(score).to.deep.equal({ total: 10, max: 15, threshold: 12, passed: false })
+    })
+
+    it('should pass when the score reaches the threshold even if a rule fails', async function () {
+      const engine = new EVMRuleEngine({ ...engineConfig, scoring: { threshold: 10 } }, weightedRules())
+
+      const { result, ruleResults, score } = await engine.evaluate(signer0Addr)
+
+      expect(result).to.eq(true)
+      expect(ruleResults[1].success).to.eq(false)
+      expect(score?.passed).to.eq(true)
+    })
+
+    it('should count rules without a weight as 1', async function () {
+      const engine = new EVMRuleEngine({ ...engineConfig, scoring: { threshold: 2 } }, [
+        addressIsEOA(engineConfig.networks, CHAIN_ID_0, {}),
+        addressIsEOA(engineConfig.networks, CHAIN_ID_1, {})
+      ])
+
+      const { result, score } = await engine.evaluate(signer0Addr)
+
+      expect(result).to.eq(true)
+      expect(score?.max).to.eq(2)
+    })
+
+    it('should not report a score without scoring configured', async function () {
+      const engine = new EVMRuleEngine(engineConfig, weightedRules())
+
+      const { result, score } = await engine.evaluate(signer0Addr)
+
+      expect(result).to.eq(false)
+      expect(score).to.eq(undefined)
+    })
+
+    it('should throw for a negative weight', async function () {
+      expect(() => withOptions(addressIsEOA(engineConfig.networks, CHAIN_ID_0, {}), { weight: -1 }))
+        .to.throw('`weight` must be a non-negative number')
+    })
+  })
+
+  describe('Short-circuit', function () {
+    function countingRule (calls: string[], name: string, success: boolean): BuiltRule {
+      return {
+        rule: async () => {
+          calls.push(name)
+          return { name, success }
+        },
+        definition: {
+          type: 'custom',
+          params: {},
+          chainId: CHAIN_ID_0
+        }
+      }
+    }
+
+    it('should stop at the first failing rule and mark the rest as skipped', async function () {
+      const calls: string[] = []
+      const engine = new EVMRuleEngine({ ...engineConfig, shortCircuit: true }, [
+        countingRule(calls, 'first', true),
+        countingRule(calls, 'second', false),
+        countingRule(calls, 'third', true)
+      ])
+
+      const { result, ruleResults } = await engine.evaluate(signer0Addr)
+
+      expect(result).to.eq(false)
+      expect(calls).to.deep.equal(['first', 'second'])
+      expect(ruleResults).to.have.lengthOf(3)
+      expect(ruleResults[1].skipped).to.eq(undefined)
+      expect(ruleResults[2]).to.deep.equal({ name: `custom (chainId: ${CHAIN_ID_0})`, success: false, skipped: true })
+    })
+
+    it('should evaluate rules in priority order', async function () {
+      const calls: string[] = []
+      const engine = new EVMRuleEngine({ ...engineConfig, shortCircuit: true }, [
+        withOptions(countingRule(calls, 'first', true), { priority: 2 }),
+        withOptions(countingRule(calls, 'second', false), { priority: 0 }),
+        withOptions(countingRule(calls, 'third', true), { priority: 1 })
+      ])
+
+      const { result, ruleResults } = await engine.evaluate(signer0Addr)
+
+      expect(result).to.eq(false)
+      expect(calls).to.deep.equal(['second'])
+      expect(ruleResults[0].skipped).to.eq(true)
+      expect(ruleResults[2].skipped).to.eq(true)
+    })
+
+    it('should evaluate every rule when all pass', async function () {
+      const engine = new EVMRuleEngine({ ...engineConfig, shortCircuit: true }, [
+        addressIsEOA(engineConfig.networks, CHAIN_ID_0, {}),
+        walletBalance(engineConfig.networks, CHAIN_ID_0, {
+          value: ethers.parseEther('1'),
+          compareType: 'gte'
+        })
+      ])
+
+      const { result, ruleResults } = await engine.evaluate(signer0Addr)
+
+      expect(result).to.eq(true)
+      expect(ruleResults.some((r) => r.skipped === true)).to.eq(false)
+    })
+
+    it('should stop once the score threshold is reached', async function () {
+      const calls: string[] = []
+      const engine = new EVMRuleEngine({ ...engineConfig, shortCircuit: true, scoring: { threshold: 10 } }, [
+        withOptions(countingRule(calls, 'first', true), { weight: 10 }),
+        withOptions(countingRule(calls, 'second', false), { weight: 5 })
+      ])
+
+      const { result, score } = await engine.evaluate(signer0Addr)
+
+      expect(result).to.eq(true)
+      expect(calls).to.deep.equal(['first'])
+      expect(score).to.deep.equal({ total: 10, max: 15, threshold: 10, passed: true })
+    })
+
+    it('should stop once the score threshold can no longer be reached', async function () {
+      const calls: string[] = []
+      const engine = new EVMRuleEngine({ ...engineConfig, shortCircuit: true, scoring: { threshold: 12 } }, [
+        withOptions(countingRule(calls, 'first', false), { weight: 10 }),
+        withOptions(countingRule(calls, 'second', true), { weight: 5 })
+      ])
+
+      const { result } = await engine.evaluate(signer0Addr)
+
+      expect(result).to.eq(false)
+      expect(calls).to.deep.equal(['first'])
+    })
+  })
+
+  describe('Historical Evaluation', function () {
+    it('should evaluate rules at a historical block', async function () {
+      const wallet = ethers.Wallet.createRandom().address
+      const blockNumber = await provider.getBlockNumber()
+      await (await signer0.sendTransaction({ to: wallet, value: ethers.parseEther('1') })).wait()
+
+      const engine = new EVMRuleEngine(engineConfig, [
+        walletBalance(engineConfig.networks, CHAIN_ID_0, {
+          value: ethers.parseEther('1'),
+          compareType: 'gte'
+        })
+      ])
+
+      const historical = await engine.evaluate(wallet, { blockTag: { [CHAIN_ID_0]: blockNumber } })
+      expect(historical.result).to.eq(false)
+      expect(historical.blockNumbers).to.deep.equal({ [CHAIN_ID_0]: blockNumber })
+      expect(historical.ruleResults[0].blockNumber).to.eq(blockNumber)
+
+      const latest = await engine.evaluate(wallet)
+      expect(latest.result).to.eq(true)
+      expect(latest.blockNumbers[CHAIN_ID_0]).to.be.greaterThan(blockNumber)
+    })
+
+    it('should apply a single block tag to every chain', async function () {
+      const engine = new EVMRuleEngine(engineConfig, [
+        addressIsEOA(engineConfig.networks, CHAIN_ID_0, {}),
+        addressIsEOA(engineConfig.networks, CHAIN_ID_1, {})
+      ])
+
+      const { result, blockNumbers } = await engine.evaluate(signer0Addr, { blockTag: 0 })
+      expect(result).to.eq(true)
+      expect(blockNumbers).to.deep.equal({ [CHAIN_ID_0]: 0, [CHAIN_ID_1]: 0 })
+    })
+
+    it('should resolve named block tags to block numbers', async function () {
+      const engine = new EVMRuleEngine(engineConfig, [
+        addressIsEOA(engineConfig.networks, CHAIN_ID_0, {})
+      ])
+
+      const latestBlock = await provider.getBlockNumber()
+      const { blockNumbers } = await engine.evaluate(signer0Addr, { blockTag: 'earliest' })
+      expect(blockNumbers).to.deep.equal({ [CHAIN_ID_0]: 0 })
+      expect(latestBlock).to.be.greaterThan(0)
+    })
+
+    it('should throw for a block tag on a network that is not configured', async function () {
+      const engine = new EVMRuleEngine(engineConfig)
+
+      let error: Error | undefined
+      try {
+        await engine.evaluate(signer0Addr, { blockTag: { 1: 'latest' } })
+      } catch (err: any) {
+        error = err
+      }
+      expect(error?.message).to.eq('invalid blockTag - network 1 not configured')
+    })
+  })
+
+  describe('Block Snapshot', function () {
+    it('should read every rule on a chain at the same block', async function () {
+      const engine = new EVMRuleEngine(engineConfig, [
+        addressIsEOA(engineConfig.networks, CHAIN_ID_0, {}),
+        walletBalance(engineConfig.networks, CHAIN_ID_0, {
+          value: ethers.parseEther('1'),
+          compareType: 'gte'
+        }),
+        addressIsEOA(engineConfig.networks, CHAIN_ID_1, {})
+      ])
+
+      const { ruleResults, blockNumbers } = await engine.evaluate(signer0Addr)
+
+      expect(Object.keys(blockNumbers)).to.have.members([CHAIN_ID_0, CHAIN_ID_1])
+      expect(ruleResults[0].blockNumber).to.eq(blockNumbers[CHAIN_ID_0])
+      expect(ruleResults[1].blockNumber).to.eq(blockNumbers[CHAIN_ID_0])
+      expect(ruleResults[2].blockNumber).to.eq(blockNumbers[CHAIN_ID_1])
+    })
+
+    it('should give custom rules the pinned block', async function () {
+      let observed: number | undefined
+      const engine = new EVMRuleEngine(engineConfig, [
+        {
+          rule: async (_address, context) => {
+            observed = context?.blockNumbers?.[CHAIN_ID_0]
+            return { name: 'custom', success: true }
+          },
+          definition: {
+            type: 'custom',
+            params: {},
+            chainId: CHAIN_ID_0
+          }
+        }
+      ])
+
+      const { ruleResults, blockNumbers } = await engine.evaluate(signer0Addr)
+
+      expect(observed).to.eq(blockNumbers[CHAIN_ID_0])
+      expect(ruleResults[0].blockNumber).to.eq(observed)
+    })
+
+    it('should report the block of nested rules', async function () {
+      const engine = new EVMRuleEngine(engineConfig, [
+        any({
+          rules: [
+            addressIsEOA(engineConfig.networks, CHAIN_ID_0, {}),
+            addressIsEOA(engineConfig.networks, CHAIN_ID_1, {})
+          ]
+        })
+      ])
+
+      const { ruleResults, blockNumbers } = await engine.evaluate(signer0Addr)
+
+      expect(ruleResults[0].blockNumber).to.eq(undefined)
+      expect(ruleResults[0].ruleResults?.[0].blockNumber).to.eq(blockNumbers[CHAIN_ID_0])
+      expect(ruleResults[0].ruleResults?.[1].blockNumber).to.eq(blockNumbers[CHAIN_ID_1])
+    })
+  })
+
+  describe('Bulk Evaluation', function () {
+    async function collect (results: AsyncGenerator<EvaluateManyResult, EvaluateManySummary>): Promise<{ results: EvaluateManyResult[], summary: EvaluateManySummary }> {
+      const collected: EvaluateManyResult[] = []
+      while (true) {
+        const next = await results.next()
+        if (next.done === true) {
+          return { results: collected, summary: next.value }
+        }
+        collected.push(next.value)
+      }
+    }
+
+    it('should yield a result per address in order with a summary', async function () {
+      const emptyAddr = ethers.Wallet.createRandom().address
+      const engine = new EVMRuleEngine(engineConfig, [
+        walletBalance(engineConfig.networks, CHAIN_ID_0, {
+          value: 1n,
+          compareType: 'gte'
+        })
+      ])
+
+      const { results, summary } = await collect(engine.evaluateMany([signer0Addr, emptyAddr, signer0Addr], { concurrency: 2 }))
+
+      expect(results.map((r) => r.address)).to.deep.equal([signer0Addr, emptyAddr, signer0Addr])
+      expect(results.map((r) => r.index)).to.deep.equal([0, 1, 2])
+      expect(results.map((r) => r.result)).to.deep.equal([true, false, true])
+      expect(summary).to.deep.equal({ total: 3, passed: 2, failed: 1, errored: 0 })
+    })
+
+    it('should pass the summary to onSummary', async function () {
+      const engine = new EVMRuleEngine(engineConfig, [addressIsEOA(engineConfig.networks, CHAIN_ID_0, {})])
+      const summaries: EvaluateManySummary[] = []
+
+      const addresses: string[] = []
+      for await (const { address } of engine.evaluateMany([signer0Addr, contractAddress], { onSummary: (summary) => summaries.push(summary) })) {
+        addresses.push(address)
+      }
+
+      expect(addresses).to.deep.equal([signer0Addr, contractAddress])
+      expect(summaries).to.deep.equal([{ total: 2, passed: 1, failed: 1, errored: 0 }])
+    })
+
+    it('should not let a slow address hold back the others', async function () {
+      const addresses = Array.from({ length: 5 }, () => ethers.Wallet.createRandom().address)
+      const finished: string[] = []
+      const engine = new EVMRuleEngine(engineConfig, [{
+        rule: async (address) => {
+          await new Promise((resolve) => setTimeout(resolve, address === addresses[0] ? 200 : 10))
+          finished.push(String(address))
+          return { name: 'delay', success: true }
+        },
+        definition: { type: 'custom', params: {}, chainId: CHAIN_ID_0 }
+      }])
+
+      const { results } = await collect(engine.evaluateMany(addresses, { concurrency: 2 }))
+
+      expect(results.map((r) => r.address)).to.deep.equal(addresses)
+      expect(finished).to.deep.equal([...addresses.slice(1), addresses[0]])
+    })
+
+    it('should resume from an offset', async function () {
+      const engine = new EVMRuleEngine(engineConfig, [addressIsEOA(engineConfig.networks, CHAIN_ID_0, {})])
+
+      const { results, summary } = await collect(engine.evaluateMany([signer0Addr, contractAddress, signer0Addr], { offset: 1 }))
+
+      expect(results.map((r) => r.index)).to.deep.equal([1, 2])
+      expect(results.map((r) => r.result)).to.deep.equal([false, true])
+      expect(summary.total).to.eq(2)
+    })
+
+    it('should count addresses with rule errors as errored', async function () {
+      const engine = new EVMRuleEngine(engineConfig, [
+        // the minimal contract has no balanceOf, so the call reverts
+        erc20Balance(engineConfig.networks, CHAIN_ID_0, {
+          tokenAddress: contractAddress,
+          value: 1n,
+          compareType: 'gte'
+        })
+      ])
+
+      const { summary } = await collect(engine.evaluateMany([signer0Addr, signer0Addr]))
+
+      expect(summary).to.deep.equal({ total: 2, passed: 0, failed: 0, errored: 2 })
+    })
+
+    it('should read every address at one block and share reads that ignore the address', async function () {
+      const countingProvider = new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT)
+      const balanceReads: string[] = []
+      const getBalance = countingProvider.getBalance.bind(countingProvider)
+      countingProvider.getBalance = async (address, blockTag) => {
+        balanceReads.push(String(address))
+        return getBalance(address, blockTag)
+      }
+      const networks = [{ provider: countingProvider, chainId: CHAIN_ID_0 }]
+      const engine = new EVMRuleEngine({ networks }, [
+        contractBalance(networks, CHAIN_ID_0, {
+          contractAddress,
+          value: 1n,
+          compareType: 'gte'
+        })
+      ])
+      const addresses = Array.from({ length: 5 }, () => ethers.Wallet.createRandom().address)
+
+      const { results } = await collect(engine.evaluateMany(addresses))
+
+      expect(results.every((r) => r.result)).to.eq(true)
+      expect(new Set(results.map((r) => r.blockNumbers[CHAIN_ID_0])).size).to.eq(1)
+      expect(balanceReads).to.deep.equal([contractAddress])
+    })
+
+    it('should throw for an invalid concurrency', async function () {
+      const engine = new EVMRuleEngine(engineConfig)
+      let error: Error | undefined
+      try {
+        await collect(engine.evaluateMany([signer0Addr], { concurrency: 0 }))
+      } catch (err: any) {
+        error = err
+      }
+      expect(error?.message).to.eq('`concurrency` must be a positive integer')
+    })
+  })
+
   describe('Load and Export', function () {
     it('should load rules into Rule Engine from json object', async function () {
       const mockJson: RuleDefinition[] = [
@@ -211,5 +756,53 @@ describe('Rule Engine', function () {
       // console.log(exportedJson)
       expect(JSON.parse(exportedJson)).to.deep.equal(mockJson)
     })
+
+    it('should keep weights and priorities when loading and exporting rules', async function () {
+      const mockJson: RuleDefinition[] = [
+        { type: 'hasNFT', chainId: CHAIN_ID_0, params: { nftAddress: contractAddress }, weight: 10 },
+        { type: 'numTransactions', chainId: CHAIN_ID_0, params: { value: '50', compareType: 'gt' }, weight: 5 },
+        { type: 'addressIsEOA', chainId: CHAIN_ID_1, params: {}, priority: 0 }
+      ]
+
+      const engine = new EVMRuleEngine(engineConfig)
+      engine.addRules(createRulesFromDefinitions(engineConfig.networks, mockJson))
+      const exportedJson = engine.exportRulesAsJsonString()
+
+      expect(JSON.parse(exportedJson)).to.deep.equal(mockJson)
+
+      const reloaded = new EVMRuleEngine(engineConfig)
+      reloaded.addRules(createRulesFromDefinitions(engineConfig.networks, JSON.parse(exportedJson)))
+      expect(reloaded.getRuleDefinitions()).to.deep.equal(engine.getRuleDefinitions())
+    })
+
+    it('should load and export nested composite rules', async function () {
+      const mockJson: RuleDefinition[] = [
+        {
+          type: 'any',
+          params: {
+            rules: [
+              { type: 'walletBalance', chainId: CHAIN_ID_0, params: { value: '1000', compareType: 'gte' } },
+              {
+                type: 'atLeast',
+                params: {
+                  count: 1,
+                  rules: [
+                    { type: 'numTransactions', chainId: CHAIN_ID_1, params: { value: '5', compareType: 'gte' } },
+                    { type: 'not', params: { rule: { type: 'addressIsContract', chainId: CHAIN_ID_1, params: {} } } }
+                  ]
+                }
+              }
+            ]
+          }
+        }
+      ]
+
+      const engine = new EVMRuleEngine(engineConfig)
+      expect(engine.validateRules(mockJson)).to.eq(true)
+      engine.addRules(createRulesFromDefinitions(engineConfig.networks, mockJson))
+      const exportedJson = engine.exportRulesAsJsonString()
+
+      expect(JSON.parse(exportedJson)).to.deep.equal(mockJson)
+    })
   })
 })
@@ -0,0 +1,161 @@
+// test/cache.spec.ts
+
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+import { EVMRuleEngine } from '../src/EVMRuleEngine.js'
+import { MemoryCacheStore, ReadCache, type CacheStore } from '../src/cache.js'
+import { addressIsEOA, numTransactions, walletBalance } from '../src/rules.js'
+import { type BuiltRule, type Network } from '../src/types.js'
+
+/**
+ * Assume anvil is running at http://127.0.0.1:8545 with some funded accounts.
+ * `anvil --port 8545`
+ */
+
+const CHAIN_ID_0 = '31337'
+const CHAIN_ID_0_ENDPOINT = 'http://127.0.0.1:8545'
+
+describe('Cache', function () {
+  // ethers reuses identical requests for 250ms, which would hide newly mined blocks
+  const provider = new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT, undefined, { cacheTimeout: -1 })
+  const networks: Network[] = [{ provider, chainId: CHAIN_ID_0 }]
+  let signer1Addr: string
+
+  before(async function () {
+    signer1Addr = await (await provider.getSigner(1)).getAddress()
+  })
+
+  function rules (): BuiltRule[] {
+    return [
+      walletBalance(networks, CHAIN_ID_0, { value: 1n, compareType: 'gte' }),
+      numTransactions(networks, CHAIN_ID_0, { value: 0n, compareType: 'gte' }),
+      addressIsEOA(networks, CHAIN_ID_0, {})
+    ]
+  }
+
+  async function mineBlock (): Promise<void> {
+    await provider.send('evm_mine', [])
+  }
+
+  describe('MemoryCacheStore', function () {
+    it('should evict the least recently used entry', function () {
+      const store = new MemoryCacheStore(2)
+      store.set('a', '1', 1000)
+      store.set('b', '2', 1000)
+      expect(store.get('a')).to.eq('1')
+
+      store.set('c', '3', 1000)
+
+      expect(store.size).to.eq(2)
+      expect(store.get('b')).to.eq(undefined)
+      expect(store.get('a')).to.eq('1')
+      expect(store.get('c')).to.eq('3')
+    })
+
+    it('should expire entries after their ttl', async function () {
+      const store = new MemoryCacheStore()
+      store.set('a', '1', 1)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+
+      expect(store.get('a')).to.eq(undefined)
+    })
+  })
+
+  describe('ReadCache', function () {
+    it('should share concurrent reads of the same key', async function () {
+      const cache = new ReadCache()
+      let fetches = 0
+      const fetch = async (): Promise<string> => {
+        fetches++
+        return '1'
+      }
+
+      const values = await Promise.all([
+        cache.read(CHAIN_ID_0, 'getBalance', [signer1Addr], 1, fetch),
+        cache.read(CHAIN_ID_0, 'getBalance', [signer1Addr.toLowerCase()], 1, fetch)
+      ])
+
+      expect(values).to.deep.equal(['1', '1'])
+      expect(fetches).to.eq(1)
+      expect(cache.getStats()).to.deep.equal({ hits: 1, misses: 1 })
+    })
+
+    it('should not cache failed reads', async function () {
+      const cache = new ReadCache()
+      let error: Error | undefined
+      try {
+        await cache.read(CHAIN_ID_0, 'call', [], 1, async () => { throw new Error('execution reverted') })
+      } catch (err: any) {
+        error = err
+      }
+      expect(error?.message).to.eq('execution reverted')
+
+      const value = await cache.read(CHAIN_ID_0, 'call', [], 1, async () => '0x')
+      expect(value).to.eq('0x')
+      expect(cache.getStats()).to.deep.equal({ hits: 0, misses: 2 })
+    })
+
+    it('should throw for an invalid ttl', function () {
+      expect(() => new ReadCache({ ttl: 0 })).to.throw('`ttl` must be a positive number')
+    })
+  })
+
+  describe('Engine', function () {
+    it('should not expose stats when caching is off', function () {
+      const engine = new EVMRuleEngine({ networks }, rules())
+      expect(engine.getCacheStats()).to.eq(undefined)
+    })
+
+    it('should reuse reads at the same block', async function () {
+      const engine = new EVMRuleEngine({ networks, cache: {} }, rules())
+      const blockTag = await provider.getBlockNumber()
+
+      const first = await engine.evaluate(signer1Addr, { blockTag })
+      expect(engine.getCacheStats()).to.deep.equal({ hits: 0, misses: 3 })
+
+      const second = await engine.evaluate(signer1Addr, { blockTag })
+      expect(engine.getCacheStats()).to.deep.equal({ hits: 3, misses: 3 })
+      expect(second.ruleResults).to.deep.equal(first.ruleResults)
+    })
+
+    it('should miss once the chain advances', async function () {
+      const engine = new EVMRuleEngine({ networks, cache: {} }, rules())
+
+      await engine.evaluate(signer1Addr)
+      await mineBlock()
+      await engine.evaluate(signer1Addr)
+
+      expect(engine.getCacheStats()).to.deep.equal({ hits: 0, misses: 6 })
+    })
+
+    it('should reuse the latest block until the ttl expires when not invalidating on new blocks', async function () {
+      const engine = new EVMRuleEngine({ networks, cache: { invalidateOnNewBlock: false } }, rules())
+
+      const first = await engine.evaluate(signer1Addr)
+      await mineBlock()
+      const second = await engine.evaluate(signer1Addr)
+
+      expect(second.blockNumbers).to.deep.equal(first.blockNumbers)
+      // the latest block number and the three reads
+      expect(engine.getCacheStats()).to.deep.equal({ hits: 4, misses: 4 })
+    })
+
+    it('should use a custom store', async function () {
+      const entries = new Map<string, string>()
+      const store: CacheStore = {
+        get: (key) => entries.get(key),
+        set: (key, value) => { entries.set(key, value) }
+      }
+      const engine = new EVMRuleEngine({ networks, cache: { store } }, rules())
+      const blockTag = await provider.getBlockNumber()
+
+      await engine.evaluate(signer1Addr, { blockTag })
+
+      expect([...entries.keys()]).to.have.members([
+        `${CHAIN_ID_0}:getBalance:["${signer1Addr.toLowerCase()}"]:${blockTag}`,
+        `${CHAIN_ID_0}:getTransactionCount:["${signer1Addr.toLowerCase()}"]:${blockTag}`,
+        `${CHAIN_ID_0}:getCode:["${signer1Addr.toLowerCase()}"]:${blockTag}`
+      ])
+    })
+  })
+})
@@ -0,0 +1,192 @@
+// test/limiter.spec.ts
+
+import { expect } from 'chai'
+import { ethers, type JsonRpcProvider } from 'ethers'
+import erc20Artifact from '../out/MockERC20.sol/MockToken.json' with { type: 'json' }
+import multicallArtifact from '../out/MockMulticall3.sol/MockMulticall3.json' with { type: 'json' }
+import { EVMRuleEngine } from '../src/EVMRuleEngine.js'
+import { RateLimiter } from '../src/limiter.js'
+import { withRetry } from '../src/retry.js'
+import { erc20Balance, numTransactions, walletBalance } from '../src/rules.js'
+import { type BuiltRule, type Network } from '../src/types.js'
+
+/**
+ * Assume anvil is running at http://127.0.0.1:8545 with some funded accounts.
+ * `anvil --port 8545`
+ */
+
+const CHAIN_ID_0 = '31337'
+const CHAIN_ID_0_ENDPOINT = 'http://127.0.0.1:8545'
+
+/**
+ * A provider that records the most requests it had in flight at once, and
+ * the addresses its eth_calls were sent to.
+ */
+function trackingProvider (): { provider: JsonRpcProvider, maxInFlight (): number, started: number[], calls: string[] } {
+  const provider = new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT)
+  const started: number[] = []
+  const calls: string[] = []
+  let inFlight = 0
+  let maxInFlight = 0
+  const track = <T extends (...args: any[]) => Promise<any>>(method: T): T => {
+    return (async (...args: any[]) => {
+      started.push(Date.now())
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      try {
+        return await method(...args)
+      } finally {
+        inFlight--
+      }
+    }) as T
+  }
+  provider.getBalance = track(provider.getBalance.bind(provider))
+  provider.getTransactionCount = track(provider.getTransactionCount.bind(provider))
+  provider.getBlock = track(provider.getBlock.bind(provider))
+  const call = track(provider.call.bind(provider))
+  provider.call = async (tx) => {
+    calls.push(String(tx.to))
+    return call(tx)
+  }
+  // The engine reads the latest block number with eth_blockNumber
+  const send = provider.send.bind(provider)
+  const trackedSend = track(send)
+  provider.send = async (method, params) => method === 'eth_blockNumber' ? trackedSend(method, params) : send(method, params)
+  return { provider, maxInFlight: () => maxInFlight, started, calls }
+}
+
+describe('Rate limiting', function () {
+  let signer1Addr: string
+  let erc20Address: string
+  let multicallAddress: string
+
+  before(async function () {
+    const provider = new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT)
+    const signer0 = await provider.getSigner(0)
+    signer1Addr = await (await provider.getSigner(1)).getAddress()
+
+    const erc20Factory = new ethers.ContractFactory(erc20Artifact.abi, erc20Artifact.bytecode.object, signer0)
+    const erc20Contract = await erc20Factory.deploy()
+    await erc20Contract.waitForDeployment()
+    erc20Address = await erc20Contract.getAddress()
+
+    const multicallFactory = new ethers.ContractFactory(multicallArtifact.abi, multicallArtifact.bytecode.object, signer0)
+    const multicall = await multicallFactory.deploy()
+    await multicall.waitForDeployment()
+    multicallAddress = await multicall.getAddress()
+  })
+
+  function rules (networks: Network[]): BuiltRule[] {
+    return [
+      walletBalance(networks, CHAIN_ID_0, { value: 0n, compareType: 'gte' }),
+      walletBalance(networks, CHAIN_ID_0, { value: 1n, compareType: 'gte' }),
+      numTransactions(networks, CHAIN_ID_0, { value: 0n, compareType: 'gte' }),
+      numTransactions(networks, CHAIN_ID_0, { value: 1000000n, compareType: 'lt' }),
+      erc20Balance(networks, CHAIN_ID_0, { tokenAddress: erc20Address, value: 0n, compareType: 'gte' })
+    ]
+  }
+
+  describe('RateLimiter', function () {
+    it('should limit the requests in flight', async function () {
+      const limiter = new RateLimiter({ maxConcurrentRequests: 2 })
+      let inFlight = 0
+      let maxInFlight = 0
+
+      await Promise.all(Array.from({ length: 6 }, async () => {
+        const release = await limiter.acquire()
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        inFlight--
+        release()
+      }))
+
+      expect(maxInFlight).to.eq(2)
+    })
+
+    it('should space requests by the requests per second', async function () {
+      const limiter = new RateLimiter({ requestsPerSecond: 20 })
+      const started: number[] = []
+
+      await Promise.all(Array.from({ length: 4 }, async () => {
+        const release = await limiter.acquire()
+        started.push(Date.now())
+        release()
+      }))
+
+      // 50ms apart, allowing for timer jitter
+      expect(started[3] - started[0]).to.be.gte(140)
+    })
+
+    it('should hold the slot of a timed out request until it settles', async function () {
+      const limiter = new RateLimiter({ maxConcurrentRequests: 1 })
+      const provider = new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT)
+      let inFlight = 0
+      let maxInFlight = 0
+
+      // a node that takes 100ms to answer, with a 20ms timeout
+      const results = await Promise.allSettled(Array.from({ length: 4 }, async () => {
+        return withRetry([provider], { timeout: 20, retries: 0 }, async () => {
+          inFlight++
+          maxInFlight = Math.max(maxInFlight, inFlight)
+          await new Promise((resolve) => setTimeout(resolve, 100))
+          inFlight--
+          return 'ok'
+        }, limiter)
+      }))
+
+      expect(results.every((result) => result.status === 'rejected')).to.eq(true)
+      expect(maxInFlight).to.eq(1)
+    })
+
+    it('should throw for invalid limits', function () {
+      expect(() => new RateLimiter({ maxConcurrentRequests: 0 })).to.throw('`maxConcurrentRequests` must be a positive integer')
+      expect(() => new RateLimiter({ requestsPerSecond: -1 })).to.throw('`requestsPerSecond` must be a positive number')
+    })
+  })
+
+  describe('Engine', function () {
+    it('should queue rule reads behind the concurrency limit', async function () {
+      const { provider, maxInFlight } = trackingProvider()
+      const networks: Network[] = [{ provider, chainId: CHAIN_ID_0, maxConcurrentRequests: 1 }]
+      const engine = new EVMRuleEngine({ networks }, rules(networks))
+
+      const { result } = await engine.evaluate(signer1Addr)
+
+      expect(result).to.eq(true)
+      expect(maxInFlight()).to.eq(1)
+    })
+
+    it('should queue rule reads behind the requests per second budget', async function () {
+      const { provider, started } = trackingProvider()
+      const networks: Network[] = [{ provider, chainId: CHAIN_ID_0, requestsPerSecond: 50 }]
+      const engine = new EVMRuleEngine({ networks }, rules(networks))
+
+      await engine.evaluate(signer1Addr)
+
+      // pinning the latest block and the five reads, 20ms apart
+      expect(started).to.have.lengthOf(6)
+      expect(started[5] - started[0]).to.be.gte(90)
+    })
+
+    it('should queue multicall requests behind the limits', async function () {
+      const { provider, maxInFlight, calls } = trackingProvider()
+      const networks: Network[] = [{ provider, chainId: CHAIN_ID_0, maxConcurrentRequests: 1, multicallAddress }]
+      const engine = new EVMRuleEngine({ networks, multicall: true }, [
+        erc20Balance(networks, CHAIN_ID_0, { tokenAddress: erc20Address, value: 0n, compareType: 'gte' }),
+        erc20Balance(networks, CHAIN_ID_0, { tokenAddress: erc20Address, value: 1n, compareType: 'lt' })
+      ])
+
+      const { result } = await engine.evaluate(signer1Addr)
+
+      expect(result).to.eq(true)
+      expect(calls).to.deep.equal([multicallAddress])
+      expect(maxInFlight()).to.eq(1)
+    })
+
+    it('should throw for invalid network limits', function () {
+      const networks: Network[] = [{ provider: new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT), chainId: CHAIN_ID_0, requestsPerSecond: 0 }]
+      expect(() => new EVMRuleEngine({ networks })).to.throw('`requestsPerSecond` must be a positive number')
+    })
+  })
+})
@@ -0,0 +1,149 @@
+// test/multicall.spec.ts
+
+import { expect } from 'chai'
+import { ethers, type JsonRpcProvider } from 'ethers'
+import erc20Artifact from '../out/MockERC20.sol/MockToken.json' with { type: 'json' }
+import multicallArtifact from '../out/MockMulticall3.sol/MockMulticall3.json' with { type: 'json' }
+import nftArtifact from '../out/MockNFT.sol/MockNFT.json' with { type: 'json' }
+import { EVMRuleEngine } from '../src/EVMRuleEngine.js'
+import { MulticallBatcher } from '../src/multicall.js'
+import { erc20Balance, hasNFT, hasNFTTokenId } from '../src/rules.js'
+import { type BuiltRule, type Network } from '../src/types.js'
+
+/**
+ * Assume anvil is running at http://127.0.0.1:8545 with some funded accounts.
+ * `anvil --port 8545`
+ */
+
+const CHAIN_ID_0 = '31337'
+const CHAIN_ID_0_ENDPOINT = 'http://127.0.0.1:8545'
+
+/**
+ * A provider that counts the eth_calls sent through it.
+ */
+function countingProvider (): { provider: JsonRpcProvider, calls: string[] } {
+  const provider = new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT)
+  const calls: string[] = []
+  const call = provider.call.bind(provider)
+  provider.call = async (tx) => {
+    calls.push(String(tx.to))
+    return call(tx)
+  }
+  return { provider, calls }
+}
+
+describe('Multicall', function () {
+  let signer0: ethers.Signer
+  let signer1Addr: string
+  let multicallAddress: string
+  let erc20Address: string
+  let nftAddress: string
+
+  before(async function () {
+    const provider = new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT)
+    signer0 = await provider.getSigner(0)
+    signer1Addr = await (await provider.getSigner(1)).getAddress()
+
+    const multicallFactory = new ethers.ContractFactory(multicallArtifact.abi, multicallArtifact.bytecode.object, signer0)
+    const multicall = await multicallFactory.deploy()
+    await multicall.waitForDeployment()
+    multicallAddress = await multicall.getAddress()
+
+    const erc20Factory = new ethers.ContractFactory(erc20Artifact.abi, erc20Artifact.bytecode.object, signer0)
+    const erc20Contract: any = await erc20Factory.deploy()
+    await erc20Contract.waitForDeployment()
+    erc20Address = await erc20Contract.getAddress()
+    await (await erc20Contract.transfer(signer1Addr, 100n)).wait()
+
+    const nftFactory = new ethers.ContractFactory(nftArtifact.abi, nftArtifact.bytecode.object, signer0)
+    const nftContract: any = await nftFactory.deploy()
+    await nftContract.waitForDeployment()
+    nftAddress = await nftContract.getAddress()
+    await (await nftContract.mint(signer1Addr)).wait()
+  })
+
+  function rules (networks: Network[]): BuiltRule[] {
+    return [
+      erc20Balance(networks, CHAIN_ID_0, { tokenAddress: erc20Address, value: 100n, compareType: 'eq' }),
+      hasNFT(networks, CHAIN_ID_0, { nftAddress }),
+      hasNFTTokenId(networks, CHAIN_ID_0, { nftAddress, tokenId: 1n })
+    ]
+  }
+
+  it('should batch the eth_calls of one evaluation into a single request', async function () {
+    const { provider, calls } = countingProvider()
+    const networks: Network[] = [{ provider, chainId: CHAIN_ID_0, multicallAddress }]
+    const engine = new EVMRuleEngine({ networks, multicall: true }, rules(networks))
+
+    const { result, ruleResults } = await engine.evaluate(signer1Addr)
+
+    expect(result).to.eq(true)
+    expect(ruleResults).to.have.lengthOf(3)
+    expect(calls).to.deep.equal([multicallAddress])
+  })
+
+  it('should only fail the call that reverted', async function () {
+    const { provider, calls } = countingProvider()
+    const networks: Network[] = [{ provider, chainId: CHAIN_ID_0, multicallAddress }]
+    const engine = new EVMRuleEngine({ networks, multicall: true }, [
+      ...rules(networks),
+      // token #99 does not exist, so ownerOf reverts
+      hasNFTTokenId(networks, CHAIN_ID_0, { nftAddress, tokenId: 99n })
+    ])
+
+    const { result, ruleResults } = await engine.evaluate(signer1Addr)
+
+    expect(result).to.eq(false)
+    expect(calls).to.have.lengthOf(1)
+    expect(ruleResults[0].success).to.eq(true)
+    expect(ruleResults[1].success).to.eq(true)
+    expect(ruleResults[2].success).to.eq(true)
+    expect(ruleResults[3].success).to.eq(false)
+    expect(ruleResults[3].error).to.match(/revert/)
+  })
+
+  it('should fall back to individual calls when Multicall3 is not deployed', async function () {
+    const { provider, calls } = countingProvider()
+    const networks: Network[] = [{ provider, chainId: CHAIN_ID_0, multicallAddress: ethers.Wallet.createRandom().address }]
+    const engine = new EVMRuleEngine({ networks, multicall: true }, rules(networks))
+
+    const { result } = await engine.evaluate(signer1Addr)
+
+    expect(result).to.eq(true)
+    expect(calls).to.have.lengthOf(3)
+  })
+
+  it('should resolve each queued call with its own return data', async function () {
+    const { provider } = countingProvider()
+    const batcher = new MulticallBatcher(provider, multicallAddress)
+    const iface = new ethers.Interface(['function balanceOf(address) view returns (uint256)'])
+
+    const [tokenBalance, nftBalance] = await Promise.all([
+      batcher.call({ to: erc20Address, data: iface.encodeFunctionData('balanceOf', [signer1Addr]) }),
+      batcher.call({ to: nftAddress, data: iface.encodeFunctionData('balanceOf', [signer1Addr]) })
+    ])
+
+    expect(iface.decodeFunctionResult('balanceOf', tokenBalance)[0]).to.eq(100n)
+    expect(iface.decodeFunctionResult('balanceOf', nftBalance)[0]).to.eq(1n)
+  })
+
+  it('should read batched calls at the evaluation block', async function () {
+    const { provider } = countingProvider()
+    const networks: Network[] = [{ provider, chainId: CHAIN_ID_0, multicallAddress }]
+    const nftContract: any = new ethers.Contract(nftAddress, nftArtifact.abi, signer0)
+    const blockNumber = await provider.getBlockNumber()
+    await (await nftContract.mint(signer1Addr)).wait()
+
+    const engine = new EVMRuleEngine({ networks, multicall: true }, [
+      hasNFTTokenId(networks, CHAIN_ID_0, { nftAddress, tokenId: 1n }),
+      hasNFTTokenId(networks, CHAIN_ID_0, { nftAddress, tokenId: 2n })
+    ])
+
+    const historical = await engine.evaluate(signer1Addr, { blockTag: blockNumber })
+    expect(historical.ruleResults[0].success).to.eq(true)
+    expect(historical.ruleResults[1].success).to.eq(false)
+
+    const latest = await engine.evaluate(signer1Addr)
+    expect(latest.result).to.eq(true)
+  })
+})
@@ -0,0 +1,82 @@
+// test/reader.spec.ts
+
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+import { findBlockByTimestamp, findBlocksByTimestamp } from '../src/reader.js'
+import { type EngineConfig } from '../src/types.js'
+
+/**
+ * We'll assume 2 anvil instances are running
+ * `anvil --port 8545 --chain-id 31337`
+ * `anvil --port 8546 --chain-id 31338`
+ */
+
+const CHAIN_ID_0 = '31337'
+const CHAIN_ID_0_ENDPOINT = 'http://127.0.0.1:8545'
+const CHAIN_ID_1 = '31338'
+const CHAIN_ID_1_ENDPOINT = 'http://127.0.0.1:8546'
+const engineConfig: EngineConfig = {
+  networks: [
+    {
+      provider: new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT),
+      chainId: CHAIN_ID_0
+    },
+    {
+      provider: new ethers.JsonRpcProvider(CHAIN_ID_1_ENDPOINT),
+      chainId: CHAIN_ID_1
+    }
+  ]
+}
+
+describe('Reader', function () {
+  const provider = engineConfig.networks[0].provider as ethers.JsonRpcProvider
+
+  // eth_blockNumber skips the ethers cache, which may still hold a block from
+  // before the transactions below
+  async function latestBlockNumber (): Promise<number> {
+    return Number(await provider.send('eth_blockNumber', []))
+  }
+
+  before(async function () {
+    // Make sure there are a few blocks to search through
+    const signer0 = await provider.getSigner(0)
+    for (let i = 0; i < 3; i++) {
+      await (await signer0.sendTransaction({ to: ethers.ZeroAddress, value: 1n })).wait()
+    }
+  })
+
+  describe('findBlockByTimestamp', function () {
+    it('should find the block with the given timestamp', async function () {
+      const blockNumber = await latestBlockNumber() - 1
+      const block = await provider.getBlock(blockNumber)
+
+      const found = await findBlockByTimestamp(engineConfig.networks, CHAIN_ID_0, block?.timestamp ?? 0)
+      expect(found).to.eq(blockNumber)
+    })
+
+    it('should return the latest block for a future timestamp', async function () {
+      const latest = await latestBlockNumber()
+      const found = await findBlockByTimestamp(engineConfig.networks, CHAIN_ID_0, Math.floor(Date.now() / 1000) + 3600)
+      expect(found).to.eq(latest)
+    })
+
+    it('should throw for a timestamp before the first block', async function () {
+      let error: Error | undefined
+      try {
+        await findBlockByTimestamp(engineConfig.networks, CHAIN_ID_0, 0)
+      } catch (err: any) {
+        error = err
+      }
+      expect(error?.message).to.match(/is before the first block/)
+    })
+  })
+
+  describe('findBlocksByTimestamp', function () {
+    it('should find a block on every configured network', async function () {
+      const blocks = await findBlocksByTimestamp(engineConfig.networks, Math.floor(Date.now() / 1000) + 3600)
+
+      expect(Object.keys(blocks)).to.deep.equal([CHAIN_ID_0, CHAIN_ID_1])
+      expect(blocks[CHAIN_ID_0]).to.eq(await latestBlockNumber())
+    })
+  })
+})
@@ -0,0 +1,207 @@
+// test/retry.spec.ts
+
+import { expect } from 'chai'
+import { ethers, makeError, type JsonRpcProvider } from 'ethers'
+import erc20Artifact from '../out/MockERC20.sol/MockToken.json' with { type: 'json' }
+import { EVMRuleEngine } from '../src/EVMRuleEngine.js'
+import { all, any } from '../src/composite.js'
+import { InfrastructureError, withRetry } from '../src/retry.js'
+import { erc20Balance, walletBalance } from '../src/rules.js'
+import { type Network } from '../src/types.js'
+
+/**
+ * We'll assume 2 anvil instances are running
+ * `anvil --port 8545 --chain-id 31337`
+ * `anvil --port 8546 --chain-id 31338`
+ */
+
+const CHAIN_ID_0 = '31337'
+const CHAIN_ID_0_ENDPOINT = 'http://127.0.0.1:8545'
+const CHAIN_ID_1 = '31338'
+const CHAIN_ID_1_ENDPOINT = 'http://127.0.0.1:8546'
+
+/**
+ * A provider whose reads fail with a server error the first `failures` times.
+ */
+function flakyProvider (failures: number = Infinity): { provider: JsonRpcProvider, attempts (): number } {
+  const provider = new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT)
+  let attempts = 0
+  const fail = <T extends (...args: any[]) => Promise<any>>(method: T): T => {
+    return (async (...args: any[]) => {
+      attempts++
+      if (attempts <= failures) {
+        throw makeError('bad gateway', 'SERVER_ERROR')
+      }
+      return method(...args)
+    }) as T
+  }
+  provider.getBalance = fail(provider.getBalance.bind(provider))
+  provider.getBlock = fail(provider.getBlock.bind(provider))
+  provider.call = fail(provider.call.bind(provider))
+  // The engine reads the latest block number with eth_blockNumber
+  const send = provider.send.bind(provider)
+  const failingSend = fail(send)
+  provider.send = async (method, params) => method === 'eth_blockNumber' ? failingSend(method, params) : send(method, params)
+  return { provider, attempts: () => attempts }
+}
+
+describe('Retry', function () {
+  const fallback = new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT)
+  let signer1Addr: string
+
+  before(async function () {
+    signer1Addr = await (await fallback.getSigner(1)).getAddress()
+  })
+
+  describe('withRetry', function () {
+    it('should retry after a backoff', async function () {
+      let attempts = 0
+      const result = await withRetry([fallback], { retries: 2, backoff: 1 }, async () => {
+        attempts++
+        if (attempts < 3) {
+          throw makeError('rate limited', 'SERVER_ERROR')
+        }
+        return 'ok'
+      })
+
+      expect(result).to.eq('ok')
+      expect(attempts).to.eq(3)
+    })
+
+    it('should fail over on a timeout', async function () {
+      const hanging = new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT)
+      const result = await withRetry([hanging, fallback], { timeout: 50, retries: 0 }, async (provider) => {
+        if (provider === hanging) {
+          return new Promise<string>(() => {})
+        }
+        return 'ok'
+      })
+
+      expect(result).to.eq('ok')
+    })
+
+    it('should throw an InfrastructureError once the retries run out', async function () {
+      let error: Error | undefined
+      try {
+        await withRetry([fallback], { retries: 1, backoff: 1 }, async () => {
+          throw makeError('bad gateway', 'SERVER_ERROR')
+        })
+      } catch (err: any) {
+        error = err
+      }
+
+      expect(error).to.be.instanceOf(InfrastructureError)
+      expect(error?.message).to.match(/bad gateway/)
+    })
+  })
+
+  describe('Engine', function () {
+    it('should fail over to the fallback providers', async function () {
+      const { provider, attempts } = flakyProvider()
+      const networks: Network[] = [{ provider, fallbackProviders: [fallback], chainId: CHAIN_ID_0 }]
+      const engine = new EVMRuleEngine({ networks, retry: { retries: 0 } }, walletBalance(networks, CHAIN_ID_0, { value: 1n, compareType: 'gte' }))
+
+      const { result, ruleResults } = await engine.evaluate(signer1Addr)
+
+      expect(result).to.eq(true)
+      expect(ruleResults[0].indeterminate).to.eq(undefined)
+      // pinning the latest block and the balance read
+      expect(attempts()).to.eq(2)
+    })
+
+    it('should retry a flaky provider', async function () {
+      const { provider } = flakyProvider(1)
+      const networks: Network[] = [{ provider, chainId: CHAIN_ID_0 }]
+      const engine = new EVMRuleEngine({ networks, retry: { backoff: 1 } }, walletBalance(networks, CHAIN_ID_0, { value: 1n, compareType: 'gte' }))
+
+      const { result } = await engine.evaluate(signer1Addr)
+
+      expect(result).to.eq(true)
+    })
+
+    it('should mark a rule as indeterminate when every provider fails', async function () {
+      const { provider, attempts } = flakyProvider()
+      const networks: Network[] = [{ provider, chainId: CHAIN_ID_0 }]
+      const engine = new EVMRuleEngine({
+        networks,
+        retry: { retries: 2, backoff: 1, networks: { [CHAIN_ID_0]: { retries: 0 } } }
+      }, walletBalance(networks, CHAIN_ID_0, { value: 1n, compareType: 'gte' }))
+
+      const { result, ruleResults } = await engine.evaluate(signer1Addr)
+
+      expect(result).to.eq(false)
+      expect(ruleResults[0]).to.include({ success: false, indeterminate: true })
+      expect(ruleResults[0].error).to.match(/bad gateway/)
+      // the per-network override disables retries
+      expect(attempts()).to.eq(2)
+    })
+
+    it('should not retry a revert or mark it as indeterminate', async function () {
+      const { provider, attempts } = flakyProvider(0)
+      const networks: Network[] = [{ provider, chainId: CHAIN_ID_0 }]
+      const engine = new EVMRuleEngine({ networks }, erc20Balance(networks, CHAIN_ID_0, {
+        // an EOA, so decoding the empty return data fails
+        tokenAddress: signer1Addr,
+        value: 1n,
+        compareType: 'gte'
+      }))
+
+      const { ruleResults } = await engine.evaluate(signer1Addr)
+
+      expect(ruleResults[0].success).to.eq(false)
+      expect(ruleResults[0].indeterminate).to.eq(undefined)
+      // pinning the latest block and the call
+      expect(attempts()).to.eq(2)
+    })
+
+    it('should fail over batched calls', async function () {
+      const erc20Factory = new ethers.ContractFactory(erc20Artifact.abi, erc20Artifact.bytecode.object, await fallback.getSigner(0))
+      const erc20Contract = await erc20Factory.deploy()
+      await erc20Contract.waitForDeployment()
+      const { provider } = flakyProvider()
+      // a new provider, so the latest block is not served from the ethers cache
+      const networks: Network[] = [{
+        provider,
+        fallbackProviders: [new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT)],
+        chainId: CHAIN_ID_0,
+        multicallAddress: ethers.Wallet.createRandom().address
+      }]
+      const engine = new EVMRuleEngine({ networks, multicall: true, retry: { retries: 0 } }, erc20Balance(networks, CHAIN_ID_0, {
+        tokenAddress: await erc20Contract.getAddress(),
+        value: 0n,
+        compareType: 'gte'
+      }))
+
+      const { result } = await engine.evaluate(signer1Addr)
+
+      expect(result).to.eq(true)
+    })
+
+    it('should propagate indeterminate results through composite rules', async function () {
+      const { provider } = flakyProvider()
+      const networks: Network[] = [
+        { provider, chainId: CHAIN_ID_0 },
+        { provider: new ethers.JsonRpcProvider(CHAIN_ID_1_ENDPOINT), chainId: CHAIN_ID_1 }
+      ]
+      const failing = walletBalance(networks, CHAIN_ID_0, { value: 1n, compareType: 'gte' })
+      const engine = new EVMRuleEngine({ networks, retry: { retries: 0 } }, [
+        all({ rules: [failing, walletBalance(networks, CHAIN_ID_1, { value: 0n, compareType: 'gte' })] }),
+        any({ rules: [failing, walletBalance(networks, CHAIN_ID_1, { value: 0n, compareType: 'lt' })] }),
+        all({ rules: [failing, walletBalance(networks, CHAIN_ID_1, { value: 0n, compareType: 'lt' })] })
+      ])
+
+      const { ruleResults } = await engine.evaluate(signer1Addr)
+
+      expect(ruleResults[0].indeterminate).to.eq(true)
+      expect(ruleResults[1].indeterminate).to.eq(true)
+      // a nested rule failed outright, so the outcome is decided
+      expect(ruleResults[2].indeterminate).to.eq(undefined)
+    })
+
+    it('should throw for an invalid retry config', function () {
+      const networks: Network[] = [{ provider: fallback, chainId: CHAIN_ID_0 }]
+      expect(() => new EVMRuleEngine({ networks, retry: { retries: -1 } })).to.throw('`retries` must be a non-negative integer')
+      expect(() => new EVMRuleEngine({ networks, retry: { networks: { 1: { timeout: 1 } } } })).to.throw('invalid retry - network 1 not configured')
+    })
+  })
+})
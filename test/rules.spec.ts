@@ -3,20 +3,56 @@
 import { expect } from 'chai'
 import { ethers, type JsonRpcProvider } from 'ethers'
 import minimalArtifact from '../out/Minimal.sol/Minimal.json' with { type: 'json' }
+import aggregatorArtifact from '../out/MockAggregator.sol/MockAggregator.json' with { type: 'json' }
+import decimalsTokenArtifact from '../out/MockDecimalsToken.sol/MockDecimalsToken.json' with { type: 'json' }
+import erc1155Artifact from '../out/MockERC1155.sol/MockERC1155.json' with { type: 'json' }
+import erc1271WalletArtifact from '../out/MockERC1271Wallet.sol/MockERC1271Wallet.json' with { type: 'json' }
 import erc20Artifact from '../out/MockERC20.sol/MockToken.json' with { type: 'json' }
+import enumerableNftArtifact from '../out/MockEnumerableNFT.sol/MockEnumerableNFT.json' with { type: 'json' }
+import merkleDistributorArtifact from '../out/MockMerkleDistributor.sol/MockMerkleDistributor.json' with { type: 'json' }
 import nftArtifact from '../out/MockNFT.sol/MockNFT.json' with { type: 'json' }
+import permit2Artifact from '../out/MockPermit2.sol/MockPermit2.json' with { type: 'json' }
+import beaconArtifact from '../out/MockProxies.sol/MockBeacon.json' with { type: 'json' }
+import beaconProxyArtifact from '../out/MockProxies.sol/MockBeaconProxy.json' with { type: 'json' }
+import eip1822ProxyArtifact from '../out/MockProxies.sol/MockEIP1822Proxy.json' with { type: 'json' }
+import erc1967ProxyArtifact from '../out/MockProxies.sol/MockERC1967Proxy.json' with { type: 'json' }
+import implementationArtifact from '../out/MockProxies.sol/MockImplementation.json' with { type: 'json' }
+import safeArtifact from '../out/MockSafe.sol/MockSafe.json' with { type: 'json' }
+import vaultArtifact from '../out/MockVault.sol/MockVault.json' with { type: 'json' }
+import votesTokenArtifact from '../out/MockVotesToken.sol/MockVotesToken.json' with { type: 'json' }
 import testArtifact from '../out/Testing.sol/TestReturnTypes.json' with { type: 'json' }
 import whitelistArtifact from '../out/Whitelist.sol/Whitelist.json' with { type: 'json' }
 import {
+  accountAge,
+  aggregateBalance,
   addressIsContract,
   addressIsEOA,
+  addressInList,
+  addressNotInList,
   callContract,
   type callContractParams,
+  codeHash,
+  delegatedTo,
+  delegatesTo,
   contractBalance,
+  erc1155Balance,
+  erc1155BalanceOfAny,
+  erc20Allowance,
   erc20Balance,
+  hasEvents,
   hasNFT,
   hasNFTTokenId,
+  merkleMembership,
   numTransactions,
+  permit2Allowance,
+  proxyImplementation,
+  safeOwner,
+  safeThreshold,
+  signedMessage,
+  storageSlot,
+  usdValue,
+  vaultPosition,
+  votingPower,
   walletBalance,
   createRulesFromDefinitions
 } from '../src/rules.js'
@@ -91,175 +127,1477 @@ describe('Single Rules', function () {
       expect(result.success).to.eq(false)
       expect(result.error).to.eq(undefined)
     })
+
+    it('should compare amounts in ether units', async function () {
+      const r = walletBalance(engineConfig.networks, CHAIN_ID_0, { value: '1.5', compareType: 'gte', units: 'ether' })
+      const result = await r.rule(signer0Addr)
+      expect(result.success).to.eq(true)
+      expect(result.name).to.eq('Wallet balance gte 1.5 ether')
+      expect(result.details?.balance).to.eq(ethers.formatEther(await provider.getBalance(signer0Addr)))
+      expect(r.definition.params).to.deep.eq({ value: '1.5', compareType: 'gte', units: 'ether' })
+    })
+
+    it('should compare amounts in gwei units', async function () {
+      const r = walletBalance(engineConfig.networks, CHAIN_ID_0, { value: '1000000000000000.5', compareType: 'gte', units: 'gwei' })
+      const result = await r.rule(signer0Addr)
+      expect(result.success).to.eq(false)
+    })
+
+    it('should throw for an invalid amount', function () {
+      expect(() => walletBalance(engineConfig.networks, CHAIN_ID_0, { value: '1e18', compareType: 'gte', units: 'ether' })).to.throw('`value` must be a non-negative decimal amount')
+      expect(() => walletBalance(engineConfig.networks, CHAIN_ID_0, { value: '1.5', compareType: 'gte', units: 'eth' as any })).to.throw('`units` must be one of wei, gwei, ether')
+    })
+  })
+
+  describe('contractBalance Rule', function () {
+    it('should pass if contract balance is >= required Wei', async function () {
+      const r = contractBalance(engineConfig.networks, CHAIN_ID_0, { contractAddress, value: ethers.parseEther('1'), compareType: 'gte' })
+      const result = await r.rule()
+      expect(result.success).to.eq(true)
+    })
+
+    it('should fail if the contract has less than the required Wei', async function () {
+      const r = contractBalance(engineConfig.networks, CHAIN_ID_0, { contractAddress, value: ethers.parseEther('2'), compareType: 'gte' })
+      const result = await r.rule()
+      expect(result.success).to.eq(false)
+    })
+
+    it('should compare amounts in ether units', async function () {
+      const r = contractBalance(engineConfig.networks, CHAIN_ID_0, { contractAddress, value: '0.5', compareType: 'gt', units: 'ether' })
+      const result = await r.rule()
+      expect(result.success).to.eq(true)
+      expect(result.name).to.eq(`Contract balance gt 0.5 ether at ${contractAddress}`)
+      expect(result.details).to.deep.eq({ balance: '1.0' })
+    })
+  })
+
+  describe('numTransactions Rule', function () {
+    it("should pass based on the user's transaction count", async function () {
+      await signer1.sendTransaction({
+        to: signer0Addr,
+        value: ethers.parseEther('0.001')
+      })
+
+      const r = numTransactions(engineConfig.networks, CHAIN_ID_0, { value: 1n, compareType: 'gte' })
+      const result = await r.rule(signer1Addr)
+      expect(result.success).to.eq(true)
+    })
+
+    it("should fail based on the user's transaction count", async function () {
+      const r = numTransactions(engineConfig.networks, CHAIN_ID_0, { value: 1n, compareType: 'gte' })
+      const result = await r.rule(signer2Addr)
+      expect(result.success).to.eq(false)
+    })
+  })
+
+  describe('accountAge Rule', function () {
+    // blocks are mined during the tests, so ethers must not cache the latest block
+    const networks: Network[] = [{ provider: new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT, undefined, { cacheTimeout: -1 }), chainId: CHAIN_ID_0 }]
+    let walletAddress: string
+    let fundedAt: number
+
+    before(async function () {
+      walletAddress = ethers.Wallet.createRandom().address
+      const tx = await signer0.sendTransaction({ to: walletAddress, value: 1n })
+      const receipt = await tx.wait()
+      fundedAt = receipt?.blockNumber ?? 0
+
+      for (let i = 0; i < 3; i++) {
+        await (provider as JsonRpcProvider).send('evm_mine', [])
+      }
+    })
+
+    it('should count the age from the block the account was funded', async function () {
+      const r = accountAge(networks, CHAIN_ID_0, { value: 3n, compareType: 'eq', unit: 'blocks' })
+      const result = await r.rule(walletAddress)
+      expect(result.success).to.eq(true)
+      expect(result.details).to.include({ age: 3, firstBlock: fundedAt })
+    })
+
+    it('should compare the age in seconds', async function () {
+      const r = accountAge(networks, CHAIN_ID_0, { value: 0n, compareType: 'gte' })
+      const result = await r.rule(signer1Addr)
+      const block = await networks[0].provider.getBlock('latest')
+      expect(result.success).to.eq(true)
+      expect(result.details?.age).to.eq((block?.timestamp ?? 0) - result.details?.firstTimestamp)
+    })
+
+    it('should measure the age at the evaluation block', async function () {
+      const r = accountAge(networks, CHAIN_ID_0, { value: 1n, compareType: 'eq', unit: 'blocks' })
+      const result = await r.rule(walletAddress, { blockNumbers: { [CHAIN_ID_0]: fundedAt + 1 } })
+      expect(result.success).to.eq(true)
+
+      const beforeFunding = await r.rule(walletAddress, { blockNumbers: { [CHAIN_ID_0]: fundedAt - 1 } })
+      expect(beforeFunding.success).to.eq(false)
+      expect(beforeFunding.details).to.deep.eq({ age: 0 })
+    })
+
+    it('should reuse the first activity found at a later block', async function () {
+      const counting = new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT, undefined, { cacheTimeout: -1 })
+      const reads: Array<ethers.BlockTag | undefined> = []
+      const getBalance = counting.getBalance.bind(counting)
+      counting.getBalance = async (address, blockTag) => {
+        reads.push(blockTag)
+        return getBalance(address, blockTag)
+      }
+      const r = accountAge([{ provider: counting, chainId: CHAIN_ID_0 }], CHAIN_ID_0, { value: 1n, compareType: 'gte', unit: 'blocks' })
+
+      const first = await r.rule(walletAddress, { blockNumbers: { [CHAIN_ID_0]: fundedAt + 1 } })
+      expect(first.details).to.include({ age: 1, firstBlock: fundedAt })
+      expect(reads.length).to.be.greaterThan(0)
+
+      reads.length = 0
+      const later = await r.rule(walletAddress, { blockNumbers: { [CHAIN_ID_0]: fundedAt + 3 } })
+      expect(later.details).to.include({ age: 3, firstBlock: fundedAt })
+      expect(reads).to.have.lengthOf(0)
+    })
+
+    it('should have an age of 0 for an account with no activity', async function () {
+      const r = accountAge(networks, CHAIN_ID_0, { value: 1n, compareType: 'lt' })
+      const result = await r.rule(ethers.Wallet.createRandom().address)
+      expect(result.success).to.eq(true)
+      expect(result.details).to.deep.eq({ age: 0 })
+    })
+
+    it('should return an error when the node has pruned the state', async function () {
+      const pruned = new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT, undefined, { cacheTimeout: -1 })
+      const prunedReads: number[] = []
+      const getBalance = pruned.getBalance.bind(pruned)
+      pruned.getBalance = async (address, blockTag) => {
+        if (typeof blockTag === 'number' && blockTag < fundedAt) {
+          prunedReads.push(blockTag)
+          throw new Error('missing trie node 0x1234 (path )')
+        }
+        return getBalance(address, blockTag)
+      }
+      const r = accountAge([{ provider: pruned, chainId: CHAIN_ID_0 }], CHAIN_ID_0, { value: 1n, compareType: 'gte' })
+      const result = await r.rule(signer2Addr)
+      expect(result.success).to.eq(false)
+      expect(result.indeterminate).to.eq(undefined)
+      expect(result.error).to.match(/needs an archive node/)
+      // the pruned read is not retried
+      expect(prunedReads).to.have.lengthOf(1)
+    })
+  })
+
+  describe('hasNFT Rule', function () {
+    let nftAddress: string
+    let nftContractUntyped: any
+
+    before(async function () {
+      const factory = new ethers.ContractFactory(nftArtifact.abi, nftArtifact.bytecode.object, signer0)
+      nftContractUntyped = await factory.deploy()
+      await nftContractUntyped.waitForDeployment()
+
+      nftAddress = await nftContractUntyped.getAddress()
+    })
+
+    it('should pass if user has the NFT', async function () {
+      // Mint an NFT to signer1
+      await nftContractUntyped.mint(signer1)
+      const r = hasNFT(engineConfig.networks, CHAIN_ID_0, { nftAddress })
+      const result = await r.rule(signer1Addr)
+      expect(result.success).to.eq(true)
+    })
+
+    it('should fail if user does not have the NFT', async function () {
+      const r = hasNFT(engineConfig.networks, CHAIN_ID_0, { nftAddress })
+      const result = await r.rule(signer2Addr)
+      expect(result.success).to.eq(false)
+    })
+
+    it('should compare the number of NFTs', async function () {
+      // signer1 now has tokens #1, #2 and #3
+      await (await nftContractUntyped.mint(signer1)).wait()
+      await (await nftContractUntyped.mint(signer1)).wait()
+
+      const atLeast3 = hasNFT(engineConfig.networks, CHAIN_ID_0, { nftAddress, value: 3n, compareType: 'gte' })
+      expect((await atLeast3.rule(signer1Addr)).success).to.eq(true)
+
+      const moreThan3 = hasNFT(engineConfig.networks, CHAIN_ID_0, { nftAddress, value: 3n, compareType: 'gt' })
+      expect((await moreThan3.rule(signer1Addr)).success).to.eq(false)
+    })
+
+    it('should list the matching token ids in a range', async function () {
+      const r = hasNFT(engineConfig.networks, CHAIN_ID_0, { nftAddress, tokenIdRange: { from: 2n, to: 10n } })
+      const result = await r.rule(signer1Addr)
+      expect(result.success).to.eq(true)
+      expect(result.details).to.deep.equal({ tokenIds: ['2', '3'] })
+    })
+
+    it('should only count the given token ids', async function () {
+      const r = hasNFT(engineConfig.networks, CHAIN_ID_0, { nftAddress, tokenIds: [3n, 99n], value: 2n, compareType: 'gte' })
+      const result = await r.rule(signer1Addr)
+      expect(result.success).to.eq(false)
+      expect(result.error).to.eq(undefined)
+      expect(result.details).to.deep.equal({ tokenIds: ['3'] })
+    })
+
+    it('should refuse to scan a large range of a collection that is not enumerable', async function () {
+      const r = hasNFT(engineConfig.networks, CHAIN_ID_0, { nftAddress, tokenIdRange: { from: 0n, to: 100000n } })
+      const result = await r.rule(signer1Addr)
+      expect(result.success).to.eq(false)
+      expect(result.error).to.match(/Cannot search more than 1000 token ids/)
+    })
+
+    it('should enumerate the tokens of an ERC721Enumerable collection', async function () {
+      const factory = new ethers.ContractFactory(enumerableNftArtifact.abi, enumerableNftArtifact.bytecode.object, signer0)
+      const enumerableNft: any = await factory.deploy()
+      await enumerableNft.waitForDeployment()
+      await (await enumerableNft.mint(signer1Addr, 5n)).wait()
+      await (await enumerableNft.mint(signer1Addr, 5000000n)).wait()
+      await (await enumerableNft.mint(signer2Addr, 6n)).wait()
+
+      const r = hasNFT(engineConfig.networks, CHAIN_ID_0, {
+        nftAddress: await enumerableNft.getAddress(),
+        tokenIdRange: { from: 1n, to: 1000000n }
+      })
+      const result = await r.rule(signer1Addr)
+      expect(result.success).to.eq(true)
+      expect(result.details).to.deep.equal({ tokenIds: ['5'] })
+    })
+
+    it('should throw when both token ids and a range are set', function () {
+      expect(() => hasNFT(engineConfig.networks, CHAIN_ID_0, {
+        nftAddress,
+        tokenIds: [1n],
+        tokenIdRange: { from: 1n, to: 2n }
+      })).to.throw('Only one of `tokenIds` and `tokenIdRange` can be set')
+    })
+  })
+
+  describe('hasNFTTokenId Rule', function () {
+    let nftAddress: string
+    const tokenId = BigInt(1)
+    let nftContractUntyped: any
+
+    before(async function () {
+      const factory = new ethers.ContractFactory(nftArtifact.abi, nftArtifact.bytecode.object, signer0)
+      nftContractUntyped = await factory.deploy()
+      await nftContractUntyped.waitForDeployment()
+
+      nftAddress = await nftContractUntyped.getAddress()
+    })
+
+    it('should pass if user has the NFT token id', async function () {
+      // Mint an NFT to signer1
+      await nftContractUntyped.mint(signer1)
+      const r = hasNFTTokenId(engineConfig.networks, CHAIN_ID_0, { nftAddress, tokenId })
+      const result = await r.rule(signer1Addr)
+      expect(result.success).to.eq(true)
+    })
+
+    it('should fail if user does not have the NFT token id', async function () {
+      const r = hasNFTTokenId(engineConfig.networks, CHAIN_ID_0, { nftAddress, tokenId })
+      const result = await r.rule(signer2Addr)
+      expect(result.success).to.eq(false)
+    })
+  })
+
+  describe('addressIsEOA Rule', function () {
+    it('should pass if address is EOA', async function () {
+      const r = addressIsEOA(engineConfig.networks, CHAIN_ID_0, {})
+      const result = await r.rule(signer0Addr)
+      expect(result.success).to.eq(true)
+    })
+
+    it('should fail if address is not EOA', async function () {
+      const r = addressIsEOA(engineConfig.networks, CHAIN_ID_0, {})
+      const result = await r.rule(contractAddress)
+      expect(result.success).to.eq(false)
+    })
+  })
+
+  describe('addressIsContract Rule', function () {
+    it('should pass if address is a contract', async function () {
+      const r = addressIsContract(engineConfig.networks, CHAIN_ID_0, {})
+      const result = await r.rule(contractAddress)
+      expect(result.success).to.eq(true)
+    })
+
+    it('should fail if address is not a contract', async function () {
+      const r = addressIsContract(engineConfig.networks, CHAIN_ID_0, {})
+      const result = await r.rule(signer0Addr)
+      expect(result.success).to.eq(false)
+    })
+  })
+
+  describe('EIP-7702 Delegation', function () {
+    const delegatedAddr = ethers.Wallet.createRandom().address
+
+    before(async function () {
+      // the code an EIP-7702 authorization sets on an EOA
+      const designator = ethers.concat(['0xef0100', contractAddress])
+      await (provider as JsonRpcProvider).send('hardhat_setCode', [delegatedAddr, designator])
+    })
+
+    it('should report a delegated EOA as an EOA', async function () {
+      const r = addressIsEOA(engineConfig.networks, CHAIN_ID_0, {})
+      const result = await r.rule(delegatedAddr)
+      expect(result.success).to.eq(true)
+      expect(result.details).to.deep.eq({ accountKind: 'delegated', delegate: contractAddress })
+    })
+
+    it('should fail a delegated EOA when delegation is not allowed', async function () {
+      const r = addressIsEOA(engineConfig.networks, CHAIN_ID_0, { allowDelegated: false })
+      expect((await r.rule(delegatedAddr)).success).to.eq(false)
+      expect((await r.rule(signer0Addr)).details).to.deep.eq({ accountKind: 'eoa' })
+    })
+
+    it('should not report a delegated EOA as a contract', async function () {
+      const r = addressIsContract(engineConfig.networks, CHAIN_ID_0, {})
+      const result = await r.rule(delegatedAddr)
+      expect(result.success).to.eq(false)
+      expect(result.details?.accountKind).to.eq('delegated')
+    })
+
+    it('should pass delegatedTo for an approved delegate', async function () {
+      const r = delegatedTo(engineConfig.networks, CHAIN_ID_0, { implementations: [contractAddress.toLowerCase()] })
+      expect((await r.rule(delegatedAddr)).success).to.eq(true)
+
+      const other = delegatedTo(engineConfig.networks, CHAIN_ID_0, { implementations: [signer1Addr] })
+      expect((await other.rule(delegatedAddr)).success).to.eq(false)
+    })
+
+    it('should fail delegatedTo for accounts that do not delegate', async function () {
+      const r = delegatedTo(engineConfig.networks, CHAIN_ID_0, {})
+      const eoa = await r.rule(signer0Addr)
+      expect(eoa.success).to.eq(false)
+      expect(eoa.details).to.deep.eq({ accountKind: 'eoa' })
+
+      const contract = await r.rule(contractAddress)
+      expect(contract.success).to.eq(false)
+      expect(contract.details).to.deep.eq({ accountKind: 'contract' })
+    })
+  })
+
+  describe('erc20Balance Rule', function () {
+    let erc20Address: string
+    let erc20Contract: any
+
+    before(async function () {
+      const factory = new ethers.ContractFactory(erc20Artifact.abi, erc20Artifact.bytecode.object, signer0)
+      erc20Contract = await factory.deploy()
+      await erc20Contract.waitForDeployment()
+
+      erc20Address = await erc20Contract.getAddress()
+
+      // Check the deployer’s balance right after deployment
+      await erc20Contract.balanceOf(signer0Addr)
+      const erc20FromSigner0 = erc20Contract.connect(signer0)
+
+      const tx = await erc20FromSigner0.transfer(signer1Addr, 100n * 100000000000000000n)
+      await tx.wait()
+    })
+
+    it('should pass if user has the required token balance', async function () {
+      // signer1 has 100 tokens
+      const ruleInstance = erc20Balance(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress: erc20Address,
+        value: 50n * 100000000000000000n,
+        compareType: 'gte'
+      })
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(true)
+    })
+
+    it('should fail if user does not have the required token balance', async function () {
+      // signer1 has 100 tokens, threshold is 101
+      const ruleInstance = erc20Balance(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress: erc20Address,
+        value: 101n * 100000000000000000n,
+        compareType: 'gte'
+      })
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(false)
+      expect(result.error).to.eq(undefined)
+    })
+
+    it('should pass exactly at the threshold', async function () {
+      // signer1 has exactly 100 tokens, threshold is 100
+      const ruleInstance = erc20Balance(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress: erc20Address,
+        value: 100n * 100000000000000000n,
+        compareType: 'eq'
+      })
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(true)
+    })
+  })
+
+  describe('erc20Balance Rule in token units', function () {
+    let tokenAddress: string
+
+    before(async function () {
+      const factory = new ethers.ContractFactory(decimalsTokenArtifact.abi, decimalsTokenArtifact.bytecode.object, signer0)
+      const contract: any = await factory.deploy(6)
+      await contract.waitForDeployment()
+      tokenAddress = await contract.getAddress()
+
+      // signer1 has 100.5 tokens
+      const tx = await contract.transfer(signer1Addr, 100_500_000n)
+      await tx.wait()
+    })
+
+    it('should convert the amount using the token decimals', async function () {
+      const ruleInstance = erc20Balance(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress,
+        value: '100.5',
+        compareType: 'eq',
+        units: 'token'
+      })
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(true)
+      expect(result.name).to.eq(`ERC20 balance eq 100.5 tokens (token: ${tokenAddress})`)
+      expect(result.details).to.deep.eq({ balance: '100.5', decimals: 6 })
+    })
+
+    it('should read the token decimals once across blocks', async function () {
+      const counting = new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT)
+      const decimalsData = new ethers.Interface(['function decimals() view returns (uint8)']).encodeFunctionData('decimals')
+      const calls: string[] = []
+      const call = counting.call.bind(counting)
+      counting.call = async (tx) => {
+        calls.push(String(tx.data))
+        return call(tx)
+      }
+      const ruleInstance = erc20Balance([{ provider: counting, chainId: CHAIN_ID_0 }], CHAIN_ID_0, {
+        tokenAddress,
+        value: '100.5',
+        compareType: 'eq',
+        units: 'token'
+      })
+      // eth_blockNumber skips the ethers cache, which may still hold a block from before the transfer
+      const blockNumber = Number(await (provider as JsonRpcProvider).send('eth_blockNumber', []))
+
+      const first = await ruleInstance.rule(signer1Addr, { blockNumbers: { [CHAIN_ID_0]: blockNumber } })
+      await (provider as JsonRpcProvider).send('evm_mine', [])
+      const second = await ruleInstance.rule(signer1Addr, { blockNumbers: { [CHAIN_ID_0]: blockNumber + 1 } })
+
+      expect(first.success).to.eq(true)
+      expect(second.success).to.eq(true)
+      expect(calls).to.have.lengthOf(3)
+      expect(calls.filter((data) => data === decimalsData)).to.have.lengthOf(1)
+    })
+
+    it('should fail if the user has less than the amount', async function () {
+      const ruleInstance = erc20Balance(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress,
+        value: '100.500001',
+        compareType: 'gte',
+        units: 'token'
+      })
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(false)
+      expect(result.error).to.eq(undefined)
+    })
+
+    it('should return an error for more decimals than the token has', async function () {
+      const ruleInstance = erc20Balance(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress,
+        value: '100.0000001',
+        compareType: 'gte',
+        units: 'token'
+      })
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(false)
+      expect(result.error).to.match(/too many decimals/)
+    })
+
+    it('should throw for an invalid amount', function () {
+      expect(() => erc20Balance(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress,
+        value: '-1',
+        compareType: 'gte',
+        units: 'token'
+      })).to.throw('`value` must be a non-negative decimal amount')
+    })
+  })
+
+  describe('aggregateBalance Rule', function () {
+    const holder = ethers.Wallet.createRandom().address
+    let tokenAddress0: string
+    let tokenAddress1: string
+
+    before(async function () {
+      const factory0 = new ethers.ContractFactory(erc20Artifact.abi, erc20Artifact.bytecode.object, signer0)
+      const token0: any = await factory0.deploy()
+      await token0.waitForDeployment()
+      tokenAddress0 = await token0.getAddress()
+
+      const chain1Signer = await (engineConfig.networks[1].provider as JsonRpcProvider).getSigner(0)
+      const factory1 = new ethers.ContractFactory(decimalsTokenArtifact.abi, decimalsTokenArtifact.bytecode.object, chain1Signer)
+      const token1: any = await factory1.deploy(6)
+      await token1.waitForDeployment()
+      tokenAddress1 = await token1.getAddress()
+
+      // holder has 10 tokens on chain 0, 2.5 tokens on chain 1 and 1 ether on chain 0
+      await (await token0.transfer(holder, ethers.parseEther('10'))).wait()
+      await (await token1.transfer(holder, 2_500_000n)).wait()
+      await (await signer0.sendTransaction({ to: holder, value: ethers.parseEther('1') })).wait()
+    })
+
+    it('should sum the normalized balances of every leg', async function () {
+      const ruleInstance = aggregateBalance(engineConfig.networks, {
+        legs: [
+          { chainId: CHAIN_ID_0, tokenAddress: tokenAddress0 },
+          { chainId: CHAIN_ID_1, tokenAddress: tokenAddress1, decimals: 6 },
+          { chainId: CHAIN_ID_0 }
+        ],
+        value: '13.5',
+        compareType: 'eq',
+        units: 'token'
+      })
+      const result = await ruleInstance.rule(holder)
+      expect(result.success).to.eq(true)
+      expect(result.name).to.eq('Aggregate balance eq 13.5 tokens across 3 legs')
+      expect(result.details).to.deep.eq({
+        total: '13500000000000000000',
+        legs: [
+          { chainId: CHAIN_ID_0, tokenAddress: tokenAddress0, balance: '10000000000000000000', normalized: '10000000000000000000' },
+          { chainId: CHAIN_ID_1, tokenAddress: tokenAddress1, decimals: 6, balance: '2500000', normalized: '2500000000000000000' },
+          { chainId: CHAIN_ID_0, balance: '1000000000000000000', normalized: '1000000000000000000' }
+        ]
+      })
+    })
+
+    it('should fail if the total is too low', async function () {
+      const ruleInstance = aggregateBalance(engineConfig.networks, {
+        legs: [
+          { chainId: CHAIN_ID_0, tokenAddress: tokenAddress0 },
+          { chainId: CHAIN_ID_1, tokenAddress: tokenAddress1, decimals: 6 }
+        ],
+        value: '12.5',
+        compareType: 'gt',
+        units: 'token'
+      })
+      const result = await ruleInstance.rule(holder)
+      expect(result.success).to.eq(false)
+      expect(result.error).to.eq(undefined)
+    })
+
+    it('should scale legs down to the decimals of the total', async function () {
+      const ruleInstance = aggregateBalance(engineConfig.networks, {
+        legs: [
+          { chainId: CHAIN_ID_0, tokenAddress: tokenAddress0, decimals: 18 },
+          { chainId: CHAIN_ID_1, tokenAddress: tokenAddress1 }
+        ],
+        value: 12_500_000n,
+        compareType: 'eq',
+        decimals: 6
+      })
+      const result = await ruleInstance.rule(holder)
+      expect(result.success).to.eq(true)
+      expect(result.details?.total).to.eq('12500000')
+    })
+
+    it('should return an error if a leg cannot be read', async function () {
+      const ruleInstance = aggregateBalance(engineConfig.networks, {
+        legs: [
+          { chainId: CHAIN_ID_0, tokenAddress: tokenAddress0 },
+          { chainId: CHAIN_ID_1, tokenAddress: tokenAddress0 }
+        ],
+        value: 1n,
+        compareType: 'gte'
+      })
+      const result = await ruleInstance.rule(holder)
+      expect(result.success).to.eq(false)
+      expect(result.error).to.not.eq(undefined)
+    })
+
+    it('should throw for a leg on a chain that is not in networks', function () {
+      expect(() => aggregateBalance(engineConfig.networks, {
+        legs: [{ chainId: '1', tokenAddress: tokenAddress0 }],
+        value: 1n,
+        compareType: 'gte'
+      })).to.throw('Chain ID 1 not found in networks')
+    })
+  })
+
+  describe('usdValue Rule', function () {
+    const holder = ethers.Wallet.createRandom().address
+    let tokenAddress: string
+    let ethFeed: any
+    let ethFeedAddress: string
+    let tokenFeedAddress: string
+
+    const deployFeed = async (decimals: number, answer: bigint): Promise<any> => {
+      const factory = new ethers.ContractFactory(aggregatorArtifact.abi, aggregatorArtifact.bytecode.object, signer0)
+      const feed: any = await factory.deploy(decimals, answer)
+      await feed.waitForDeployment()
+      return feed
+    }
+
+    before(async function () {
+      const factory = new ethers.ContractFactory(decimalsTokenArtifact.abi, decimalsTokenArtifact.bytecode.object, signer0)
+      const token: any = await factory.deploy(6)
+      await token.waitForDeployment()
+      tokenAddress = await token.getAddress()
+
+      // ETH at $2000.50 and the token at $1
+      ethFeed = await deployFeed(8, 200_050_000_000n)
+      ethFeedAddress = await ethFeed.getAddress()
+      tokenFeedAddress = await (await deployFeed(8, 100_000_000n)).getAddress()
+
+      // holder has 2 ether and 150.25 tokens
+      await (await signer0.sendTransaction({ to: holder, value: ethers.parseEther('2') })).wait()
+      await (await token.transfer(holder, 150_250_000n)).wait()
+    })
+
+    it('should sum the USD value of every asset', async function () {
+      const ruleInstance = usdValue(engineConfig.networks, CHAIN_ID_0, {
+        assets: [
+          { feedAddress: ethFeedAddress },
+          { tokenAddress, feedAddress: tokenFeedAddress }
+        ],
+        value: '4151.25',
+        compareType: 'eq'
+      })
+      const result = await ruleInstance.rule(holder)
+      expect(result.success).to.eq(true)
+      expect(result.name).to.eq('USD value eq 4151.25 across 2 assets')
+      expect(result.details).to.deep.eq({
+        total: '4151.25',
+        assets: [
+          { feedAddress: ethFeedAddress, balance: '2.0', price: '2000.5', value: '4001.0' },
+          { tokenAddress, feedAddress: tokenFeedAddress, balance: '150.25', price: '1.0', value: '150.25' }
+        ]
+      })
+    })
+
+    it('should fail if the value is too low', async function () {
+      const ruleInstance = usdValue(engineConfig.networks, CHAIN_ID_0, {
+        assets: [{ tokenAddress, feedAddress: tokenFeedAddress }],
+        value: '150.26',
+        compareType: 'gte'
+      })
+      const result = await ruleInstance.rule(holder)
+      expect(result.success).to.eq(false)
+      expect(result.error).to.eq(undefined)
+    })
+
+    it('should return an error for a stale price', async function () {
+      const block = await provider.getBlock('latest')
+      await (await ethFeed.setAnswer(200_050_000_000n, BigInt(block?.timestamp ?? 0) - 7200n)).wait()
+
+      const stale = usdValue(engineConfig.networks, CHAIN_ID_0, {
+        assets: [{ feedAddress: ethFeedAddress }],
+        value: '1',
+        compareType: 'gte'
+      })
+      const result = await stale.rule(holder)
+      expect(result.success).to.eq(false)
+      expect(result.error).to.match(/^Price feed 0x[0-9a-fA-F]{40} is stale/)
+
+      const longHeartbeat = usdValue(engineConfig.networks, CHAIN_ID_0, {
+        assets: [{ feedAddress: ethFeedAddress, maxStaleness: 86400 }],
+        value: '1',
+        compareType: 'gte'
+      })
+      expect((await longHeartbeat.rule(holder)).success).to.eq(true)
+    })
+
+    it('should return an error for a price that is not positive', async function () {
+      const feedAddress = await (await deployFeed(8, 0n)).getAddress()
+      const ruleInstance = usdValue(engineConfig.networks, CHAIN_ID_0, {
+        assets: [{ feedAddress }],
+        value: '1',
+        compareType: 'gte'
+      })
+      const result = await ruleInstance.rule(holder)
+      expect(result.success).to.eq(false)
+      expect(result.error).to.eq(`Price feed ${feedAddress} returned an invalid price: 0`)
+    })
+
+    it('should throw for an invalid amount', function () {
+      expect(() => usdValue(engineConfig.networks, CHAIN_ID_0, {
+        assets: [{ feedAddress: ethFeedAddress }],
+        value: '$500',
+        compareType: 'gte'
+      })).to.throw('`value` must be a non-negative decimal amount')
+    })
+  })
+
+  describe('vaultPosition Rule', function () {
+    const holder = ethers.Wallet.createRandom().address
+    let vaultAddress: string
+
+    before(async function () {
+      const tokenFactory = new ethers.ContractFactory(erc20Artifact.abi, erc20Artifact.bytecode.object, signer0)
+      const token: any = await tokenFactory.deploy()
+      await token.waitForDeployment()
+      const tokenAddress = await token.getAddress()
+
+      const vaultFactory = new ethers.ContractFactory(vaultArtifact.abi, vaultArtifact.bytecode.object, signer0)
+      const vault: any = await vaultFactory.deploy(tokenAddress)
+      await vault.waitForDeployment()
+      vaultAddress = await vault.getAddress()
+
+      // holder has 100 shares and 50 tokens, and a donation doubles the assets of each share
+      await (await token.approve(vaultAddress, ethers.parseEther('100'))).wait()
+      await (await vault.deposit(ethers.parseEther('100'), holder)).wait()
+      await (await token.transfer(vaultAddress, ethers.parseEther('100'))).wait()
+      await (await token.transfer(holder, ethers.parseEther('50'))).wait()
+    })
+
+    it('should compare the assets of the shares', async function () {
+      const ruleInstance = vaultPosition(engineConfig.networks, CHAIN_ID_0, {
+        vaultAddress,
+        value: ethers.parseEther('199'),
+        compareType: 'gte'
+      })
+      const result = await ruleInstance.rule(holder)
+      expect(result.success).to.eq(true)
+      expect(result.name).to.eq(`Vault position gte 199000000000000000000 (vault: ${vaultAddress})`)
+      // The vault rounds down in its own favour
+      expect(result.details).to.deep.eq({
+        shares: '100000000000000000000',
+        assets: '199999999999999999999',
+        total: '199999999999999999999'
+      })
+    })
+
+    it('should add the wallet balance of the underlying asset', async function () {
+      const withoutWallet = vaultPosition(engineConfig.networks, CHAIN_ID_0, {
+        vaultAddress,
+        value: '249',
+        compareType: 'gte',
+        units: 'token'
+      })
+      expect((await withoutWallet.rule(holder)).success).to.eq(false)
+
+      const withWallet = vaultPosition(engineConfig.networks, CHAIN_ID_0, {
+        vaultAddress,
+        value: '249',
+        compareType: 'gte',
+        units: 'token',
+        includeWalletBalance: true
+      })
+      const result = await withWallet.rule(holder)
+      expect(result.success).to.eq(true)
+      expect(result.name).to.eq(`Vault position gte 249 tokens (vault: ${vaultAddress}, with wallet balance)`)
+      expect(result.details).to.deep.eq({
+        shares: '100000000000000000000',
+        assets: '199.999999999999999999',
+        walletBalance: '50.0',
+        total: '249.999999999999999999',
+        decimals: 18
+      })
+    })
+
+    it('should return an error for a contract that is not a vault', async function () {
+      const ruleInstance = vaultPosition(engineConfig.networks, CHAIN_ID_0, {
+        vaultAddress: contractAddress,
+        value: 1n,
+        compareType: 'gte'
+      })
+      const result = await ruleInstance.rule(holder)
+      expect(result.success).to.eq(false)
+      expect(result.error).to.not.eq(undefined)
+    })
+  })
+
+  describe('Governance Rules', function () {
+    let tokenAddress: string
+    let voterAddr: string
+    let snapshotBlock: number
+
+    before(async function () {
+      const factory = new ethers.ContractFactory(votesTokenArtifact.abi, votesTokenArtifact.bytecode.object, signer0)
+      const token: any = await factory.deploy()
+      await token.waitForDeployment()
+      tokenAddress = await token.getAddress()
+
+      // voter delegates 100 tokens to itself before the snapshot, signer0 delegates 900 tokens to signer1 after it.
+      // signer2 must keep a nonce of 0, so the voter is another account
+      const voter = await (provider as JsonRpcProvider).getSigner(3)
+      voterAddr = await voter.getAddress()
+      await (await token.transfer(voterAddr, ethers.parseEther('100'))).wait()
+      const receipt = await (await token.connect(voter).delegate(voterAddr)).wait()
+      snapshotBlock = receipt.blockNumber
+      await (await token.delegate(signer1Addr)).wait()
+    })
+
+    it('should compare the current votes', async function () {
+      const ruleInstance = votingPower(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress,
+        value: '900',
+        compareType: 'gte',
+        units: 'token'
+      })
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(true)
+      expect(result.name).to.eq(`Voting power gte 900 tokens (token: ${tokenAddress})`)
+      expect(result.details).to.deep.eq({ votes: '900.0', decimals: 18 })
+
+      // signer0 holds the tokens but has delegated its votes
+      expect((await ruleInstance.rule(signer0Addr)).success).to.eq(false)
+    })
+
+    it('should compare the votes at a past block', async function () {
+      const ruleInstance = votingPower(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress,
+        value: ethers.parseEther('100'),
+        compareType: 'eq',
+        timepoint: snapshotBlock
+      })
+      expect((await ruleInstance.rule(voterAddr)).success).to.eq(true)
+
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(false)
+      expect(result.details).to.deep.eq({ votes: '0' })
+    })
+
+    it('should return an error for a future timepoint', async function () {
+      const ruleInstance = votingPower(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress,
+        value: 1n,
+        compareType: 'gte',
+        timepoint: 1_000_000_000
+      })
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(false)
+      expect(result.error).to.not.eq(undefined)
+    })
+
+    it('should check the delegate', async function () {
+      const toSigner1 = delegatesTo(engineConfig.networks, CHAIN_ID_0, { tokenAddress, delegates: [signer1Addr.toLowerCase()] })
+      const result = await toSigner1.rule(signer0Addr)
+      expect(result.success).to.eq(true)
+      expect(result.details).to.deep.eq({ delegate: signer1Addr })
+
+      const toVoter = delegatesTo(engineConfig.networks, CHAIN_ID_0, { tokenAddress, delegates: [voterAddr] })
+      expect((await toVoter.rule(signer0Addr)).success).to.eq(false)
+    })
+
+    it('should check for any delegate', async function () {
+      const ruleInstance = delegatesTo(engineConfig.networks, CHAIN_ID_0, { tokenAddress })
+      expect((await ruleInstance.rule(voterAddr)).success).to.eq(true)
+
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(false)
+      expect(result.details).to.deep.eq({ delegate: ethers.ZeroAddress })
+    })
+
+    it('should throw for an invalid delegate', function () {
+      expect(() => delegatesTo(engineConfig.networks, CHAIN_ID_0, { tokenAddress, delegates: ['0x1234'] })).to.throw('Invalid address in `addresses`: 0x1234')
+    })
+  })
+
+  describe('Safe Rules', function () {
+    let safeAddress: string
+    let nftAddress: string
+
+    before(async function () {
+      const safeFactory = new ethers.ContractFactory(safeArtifact.abi, safeArtifact.bytecode.object, signer0)
+      const safe = await safeFactory.deploy([signer0Addr, signer1Addr], 2)
+      await safe.waitForDeployment()
+      safeAddress = await safe.getAddress()
+
+      // The Safe holds an NFT that its owners do not
+      const nftFactory = new ethers.ContractFactory(nftArtifact.abi, nftArtifact.bytecode.object, signer0)
+      const nft: any = await nftFactory.deploy()
+      await nft.waitForDeployment()
+      nftAddress = await nft.getAddress()
+      await (await nft.mint(safeAddress)).wait()
+    })
+
+    it('should compare the threshold of a Safe', async function () {
+      const ruleInstance = safeThreshold(engineConfig.networks, CHAIN_ID_0, { value: 2n, compareType: 'gte' })
+      const result = await ruleInstance.rule(safeAddress)
+      expect(result.success).to.eq(true)
+      expect(result.name).to.eq('Safe threshold gte 2')
+      expect(result.details).to.deep.eq({ threshold: 2, owners: [signer0Addr, signer1Addr] })
+
+      const higher = safeThreshold(engineConfig.networks, CHAIN_ID_0, { value: 3n, compareType: 'gte', safeAddress })
+      expect((await higher.rule(signer2Addr)).success).to.eq(false)
+    })
+
+    it('should fail for an address that is not a Safe', async function () {
+      const ruleInstance = safeThreshold(engineConfig.networks, CHAIN_ID_0, { value: 1n, compareType: 'gte' })
+      for (const address of [signer2Addr, contractAddress]) {
+        const result = await ruleInstance.rule(address)
+        expect(result.success).to.eq(false)
+        expect(result.error).to.eq(undefined)
+      }
+    })
+
+    it('should check the owners of a Safe', async function () {
+      const ruleInstance = safeOwner(engineConfig.networks, CHAIN_ID_0, { safeAddress })
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(true)
+      expect(result.name).to.eq(`Owner of Safe ${safeAddress}`)
+      expect((await ruleInstance.rule(signer2Addr)).success).to.eq(false)
+    })
+
+    it('should evaluate the nested rule against the Safe', async function () {
+      const ruleInstance = safeOwner(engineConfig.networks, CHAIN_ID_0, {
+        safeAddress,
+        rule: hasNFT(engineConfig.networks, CHAIN_ID_0, { nftAddress })
+      })
+      const result = await ruleInstance.rule(signer0Addr)
+      expect(result.success).to.eq(true)
+      expect(result.ruleResults).to.have.lengthOf(1)
+      expect(result.ruleResults?.[0].success).to.eq(true)
+
+      // not an owner, so the nested rule is not evaluated
+      const notOwner = await ruleInstance.rule(signer2Addr)
+      expect(notOwner.success).to.eq(false)
+      expect(notOwner.ruleResults).to.eq(undefined)
+    })
+
+    it('should fail if the nested rule fails for the Safe', async function () {
+      const ruleInstance = safeOwner(engineConfig.networks, CHAIN_ID_0, {
+        safeAddress,
+        rule: hasNFT(engineConfig.networks, CHAIN_ID_0, { nftAddress, value: 2n })
+      })
+      const result = await ruleInstance.rule(signer0Addr)
+      expect(result.success).to.eq(false)
+      expect(result.error).to.eq(undefined)
+    })
+
+    it('should report an error of the nested rule', async function () {
+      const ruleInstance = safeOwner(engineConfig.networks, CHAIN_ID_0, {
+        safeAddress,
+        rule: erc20Balance(engineConfig.networks, CHAIN_ID_0, { tokenAddress: contractAddress, value: 1n, compareType: 'gte' })
+      })
+      const result = await ruleInstance.rule(signer0Addr)
+      expect(result.success).to.eq(false)
+      expect(result.error).to.not.eq(undefined)
+      expect(result.ruleResults?.[0].error).to.eq(result.error)
+    })
+  })
+
+  describe('erc1155Balance Rule', function () {
+    let erc1155Address: string
+
+    before(async function () {
+      const factory = new ethers.ContractFactory(erc1155Artifact.abi, erc1155Artifact.bytecode.object, signer0)
+      const erc1155Contract: any = await factory.deploy()
+      await erc1155Contract.waitForDeployment()
+
+      erc1155Address = await erc1155Contract.getAddress()
+
+      // signer1 has 5 of token #1 and 1 of token #2
+      await (await erc1155Contract.mint(signer1Addr, 1n, 5n)).wait()
+      await (await erc1155Contract.mint(signer1Addr, 2n, 1n)).wait()
+    })
+
+    it('should pass if user has the required token balance', async function () {
+      const ruleInstance = erc1155Balance(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress: erc1155Address,
+        tokenId: 1n,
+        value: 5n,
+        compareType: 'gte'
+      })
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(true)
+    })
+
+    it('should fail if user does not have the required token balance', async function () {
+      const ruleInstance = erc1155Balance(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress: erc1155Address,
+        tokenId: 2n,
+        value: 5n,
+        compareType: 'gte'
+      })
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(false)
+      expect(result.error).to.eq(undefined)
+    })
+
+    it('should pass if any of the token ids has the required balance', async function () {
+      const ruleInstance = erc1155BalanceOfAny(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress: erc1155Address,
+        tokenIds: [3n, 2n],
+        value: 1n,
+        compareType: 'eq'
+      })
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(true)
+    })
+
+    it('should fail if none of the token ids has the required balance', async function () {
+      const ruleInstance = erc1155BalanceOfAny(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress: erc1155Address,
+        tokenIds: [1n, 2n, 3n],
+        value: 10n,
+        compareType: 'gte'
+      })
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(false)
+      expect(result.error).to.eq(undefined)
+    })
+
+    it('should compare values loaded from definitions', async function () {
+      const [ruleInstance] = createRulesFromDefinitions(engineConfig.networks, [
+        { type: 'erc1155BalanceOfAny', chainId: CHAIN_ID_0, params: { tokenAddress: erc1155Address, tokenIds: ['1'], value: '5', compareType: 'eq' } }
+      ])
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(true)
+    })
+
+    it('should throw if no token ids are given', function () {
+      expect(() => erc1155BalanceOfAny(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress: erc1155Address,
+        tokenIds: [],
+        value: 1n,
+        compareType: 'gte'
+      })).to.throw('`tokenIds` is required')
+    })
   })
 
-  describe('contractBalance Rule', function () {
-    it('should pass if contract balance is >= required Wei', async function () {
-      const r = contractBalance(engineConfig.networks, CHAIN_ID_0, { contractAddress, value: ethers.parseEther('1'), compareType: 'gte' })
-      const result = await r.rule()
+  describe('erc20Allowance Rule', function () {
+    let erc20Address: string
+
+    before(async function () {
+      const factory = new ethers.ContractFactory(erc20Artifact.abi, erc20Artifact.bytecode.object, signer0)
+      const contract: any = await factory.deploy()
+      await contract.waitForDeployment()
+      erc20Address = await contract.getAddress()
+
+      // signer1 approves signer2 for 25 tokens
+      const tx = await contract.connect(signer1).approve(signer2Addr, ethers.parseUnits('25', 18))
+      await tx.wait()
+    })
+
+    it('should pass if the spender is approved for enough tokens', async function () {
+      const ruleInstance = erc20Allowance(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress: erc20Address,
+        spender: signer2Addr,
+        value: ethers.parseUnits('25', 18),
+        compareType: 'gte'
+      })
+      const result = await ruleInstance.rule(signer1Addr)
       expect(result.success).to.eq(true)
     })
 
-    it('should fail if the contract has less than the required Wei', async function () {
-      const r = contractBalance(engineConfig.networks, CHAIN_ID_0, { contractAddress, value: ethers.parseEther('2'), compareType: 'gte' })
-      const result = await r.rule()
+    it('should fail if the spender is not approved', async function () {
+      const ruleInstance = erc20Allowance(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress: erc20Address,
+        spender: signer0Addr,
+        value: 1n,
+        compareType: 'gte'
+      })
+      const result = await ruleInstance.rule(signer1Addr)
       expect(result.success).to.eq(false)
+      expect(result.error).to.eq(undefined)
     })
-  })
 
-  describe('numTransactions Rule', function () {
-    it("should pass based on the user's transaction count", async function () {
-      await signer1.sendTransaction({
-        to: signer0Addr,
-        value: ethers.parseEther('0.001')
+    it('should compare amounts in token units', async function () {
+      const ruleInstance = erc20Allowance(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress: erc20Address,
+        spender: signer2Addr,
+        value: '25.5',
+        compareType: 'lt',
+        units: 'token'
       })
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(true)
+      expect(result.details).to.deep.eq({ allowance: '25.0', decimals: 18 })
+    })
 
-      const r = numTransactions(engineConfig.networks, CHAIN_ID_0, { value: 1n, compareType: 'gte' })
-      const result = await r.rule(signer1Addr)
+    it('should throw if the spender is missing', function () {
+      expect(() => erc20Allowance(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress: erc20Address,
+        value: 1n,
+        compareType: 'gte'
+      } as any)).to.throw('`spender` is required')
+    })
+  })
+
+  describe('permit2Allowance Rule', function () {
+    let erc20Address: string
+    let permit2Address: string
+    let expiration: number
+
+    before(async function () {
+      const erc20Factory = new ethers.ContractFactory(erc20Artifact.abi, erc20Artifact.bytecode.object, signer0)
+      const erc20Contract: any = await erc20Factory.deploy()
+      await erc20Contract.waitForDeployment()
+      erc20Address = await erc20Contract.getAddress()
+
+      const permit2Factory = new ethers.ContractFactory(permit2Artifact.abi, permit2Artifact.bytecode.object, signer0)
+      const permit2Contract: any = await permit2Factory.deploy()
+      await permit2Contract.waitForDeployment()
+      permit2Address = await permit2Contract.getAddress()
+
+      const block = await provider.getBlock('latest')
+      expiration = (block?.timestamp ?? 0) + 3600
+
+      // signer1 approves Permit2 for 50 tokens, then grants signer2 40 tokens,
+      // signer0 an allowance that has already expired and the minimal
+      // contract more than Permit2 is approved for
+      await (await erc20Contract.connect(signer1).approve(permit2Address, 50n)).wait()
+      await (await permit2Contract.connect(signer1).approve(erc20Address, signer2Addr, 40n, expiration)).wait()
+      await (await permit2Contract.connect(signer1).approve(erc20Address, signer0Addr, 40n, 1)).wait()
+      await (await permit2Contract.connect(signer1).approve(erc20Address, contractAddress, 100n, expiration)).wait()
+    })
+
+    it('should pass if the spender has a Permit2 allowance', async function () {
+      const ruleInstance = permit2Allowance(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress: erc20Address,
+        spender: signer2Addr,
+        value: 40n,
+        compareType: 'eq',
+        permit2Address
+      })
+      const result = await ruleInstance.rule(signer1Addr)
       expect(result.success).to.eq(true)
+      expect(result.details).to.deep.eq({ allowance: '40', expiration, expired: false })
     })
 
-    it("should fail based on the user's transaction count", async function () {
-      const r = numTransactions(engineConfig.networks, CHAIN_ID_0, { value: 1n, compareType: 'gte' })
-      const result = await r.rule(signer2Addr)
+    it('should treat an expired allowance as 0', async function () {
+      const ruleInstance = permit2Allowance(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress: erc20Address,
+        spender: signer0Addr,
+        value: 1n,
+        compareType: 'gte',
+        permit2Address
+      })
+      const result = await ruleInstance.rule(signer1Addr)
+      expect(result.success).to.eq(false)
+      expect(result.details).to.deep.eq({ allowance: '0', expiration: 1, expired: true })
+    })
+
+    it('should cap the allowance by the token approval of Permit2', async function () {
+      const [ruleInstance] = createRulesFromDefinitions(engineConfig.networks, [{
+        type: 'permit2Allowance',
+        chainId: CHAIN_ID_0,
+        params: { tokenAddress: erc20Address, spender: contractAddress, value: '100', compareType: 'gte', permit2Address }
+      }])
+      const result = await ruleInstance.rule(signer1Addr)
       expect(result.success).to.eq(false)
+      expect(result.details?.allowance).to.eq('50')
+      expect(ruleInstance.definition.params.permit2Address).to.eq(permit2Address)
+    })
+
+    it('should default to the canonical Permit2 address', function () {
+      const ruleInstance = permit2Allowance(engineConfig.networks, CHAIN_ID_0, {
+        tokenAddress: erc20Address,
+        spender: signer2Addr,
+        value: 1n,
+        compareType: 'gte'
+      })
+      expect(ruleInstance.definition.params).to.not.have.property('permit2Address')
     })
   })
 
-  describe('hasNFT Rule', function () {
-    let nftAddress: string
-    let nftContractUntyped: any
+  describe('signedMessage Rule', function () {
+    const owner = ethers.Wallet.createRandom()
+    const message = 'I own this address'
+    const typedData = {
+      domain: { name: 'Gate', version: '1', chainId: 31337 },
+      types: { Login: [{ name: 'account', type: 'address' }, { name: 'nonce', type: 'uint256' }] },
+      message: { account: owner.address, nonce: '1' }
+    }
+    let walletAddress: string
 
     before(async function () {
-      const factory = new ethers.ContractFactory(nftArtifact.abi, nftArtifact.bytecode.object, signer0)
-      nftContractUntyped = await factory.deploy()
-      await nftContractUntyped.waitForDeployment()
+      const factory = new ethers.ContractFactory(erc1271WalletArtifact.abi, erc1271WalletArtifact.bytecode.object, signer0)
+      const contract = await factory.deploy(owner.address)
+      await contract.waitForDeployment()
+      walletAddress = await contract.getAddress()
+    })
 
-      nftAddress = await nftContractUntyped.getAddress()
+    it('should pass for a personal message signed by the address', async function () {
+      const r = signedMessage(engineConfig.networks, CHAIN_ID_0, { message })
+      const result = await r.rule(owner.address, { signature: await owner.signMessage(message) })
+      expect(result.success).to.eq(true)
+      expect(result.details).to.deep.eq({ verifiedBy: 'ecrecover' })
     })
 
-    it('should pass if user has the NFT', async function () {
-      // Mint an NFT to signer1
-      await nftContractUntyped.mint(signer1)
-      const r = hasNFT(engineConfig.networks, CHAIN_ID_0, { nftAddress })
-      const result = await r.rule(signer1Addr)
+    it('should pass for typed data signed by the address', async function () {
+      const r = signedMessage(engineConfig.networks, CHAIN_ID_0, { typedData })
+      const signature = await owner.signTypedData(typedData.domain, typedData.types, typedData.message)
+      const result = await r.rule(owner.address, { signature })
       expect(result.success).to.eq(true)
     })
 
-    it('should fail if user does not have the NFT', async function () {
-      const r = hasNFT(engineConfig.networks, CHAIN_ID_0, { nftAddress })
-      const result = await r.rule(signer2Addr)
+    it('should fail for a signature by another address', async function () {
+      const r = signedMessage(engineConfig.networks, CHAIN_ID_0, { message })
+      const result = await r.rule(signer1Addr, { signature: await owner.signMessage(message) })
+      expect(result.success).to.eq(false)
+      expect(result.error).to.eq(undefined)
+    })
+
+    it('should fail for a signature of another message', async function () {
+      const r = signedMessage(engineConfig.networks, CHAIN_ID_0, { message })
+      const result = await r.rule(owner.address, { signature: await owner.signMessage('something else') })
+      expect(result.success).to.eq(false)
+    })
+
+    it('should verify smart contract wallet signatures with ERC-1271', async function () {
+      const r = signedMessage(engineConfig.networks, CHAIN_ID_0, { message })
+      const result = await r.rule(walletAddress, { signature: await owner.signMessage(message) })
+      expect(result.success).to.eq(true)
+      expect(result.details).to.deep.eq({ verifiedBy: 'erc1271' })
+
+      const invalid = await r.rule(walletAddress, { signature: await ethers.Wallet.createRandom().signMessage(message) })
+      expect(invalid.success).to.eq(false)
+      expect(invalid.error).to.eq(undefined)
+    })
+
+    it('should return an error without a signature', async function () {
+      const r = signedMessage(engineConfig.networks, CHAIN_ID_0, { message })
+      const result = await r.rule(owner.address)
       expect(result.success).to.eq(false)
+      expect(result.error).to.eq('`signature` is required in the evaluate options')
+    })
+
+    it('should throw unless one of message or typedData is given', function () {
+      expect(() => signedMessage(engineConfig.networks, CHAIN_ID_0, {})).to.throw('One of `message` or `typedData` is required')
+      expect(() => signedMessage(engineConfig.networks, CHAIN_ID_0, { message, typedData })).to.throw('One of `message` or `typedData` is required')
     })
   })
 
-  describe('hasNFTTokenId Rule', function () {
-    let nftAddress: string
-    const tokenId = BigInt(1)
-    let nftContractUntyped: any
+  describe('hasEvents Rule', function () {
+    // transfers are mined during the tests, so ethers must not cache the latest block
+    const networks: Network[] = [{ provider: new ethers.JsonRpcProvider(CHAIN_ID_0_ENDPOINT, undefined, { cacheTimeout: -1 }), chainId: CHAIN_ID_0 }]
+    const event = 'event Transfer(address indexed from, address indexed to, uint256 value)'
+    let erc20Address: string
+    let deployedAt: number
+    let transferredAt: number
 
     before(async function () {
-      const factory = new ethers.ContractFactory(nftArtifact.abi, nftArtifact.bytecode.object, signer0)
-      nftContractUntyped = await factory.deploy()
-      await nftContractUntyped.waitForDeployment()
+      const factory = new ethers.ContractFactory(erc20Artifact.abi, erc20Artifact.bytecode.object, signer0)
+      const contract: any = await factory.deploy()
+      const deployment = await contract.deploymentTransaction()?.wait()
+      deployedAt = deployment?.blockNumber ?? 0
+      erc20Address = await contract.getAddress()
+
+      // signer0 sends signer2 two transfers, in separate blocks
+      await (await contract.transfer(signer2Addr, 1n)).wait()
+      const receipt = await (await contract.transfer(signer2Addr, 2n)).wait()
+      transferredAt = receipt.blockNumber
+    })
 
-      nftAddress = await nftContractUntyped.getAddress()
+    it('should count the events matching the address', async function () {
+      const r = hasEvents(networks, CHAIN_ID_0, {
+        contractAddress: erc20Address,
+        event,
+        filter: { to: '$address' },
+        fromBlock: deployedAt,
+        value: 2n,
+        compareType: 'eq'
+      })
+      const result = await r.rule(signer2Addr)
+      expect(result.success).to.eq(true)
+      expect(result.details).to.deep.eq({ count: '2' })
     })
 
-    it('should pass if user has the NFT token id', async function () {
-      // Mint an NFT to signer1
-      await nftContractUntyped.mint(signer1)
-      const r = hasNFTTokenId(engineConfig.networks, CHAIN_ID_0, { nftAddress, tokenId })
-      const result = await r.rule(signer1Addr)
+    it('should page through the block range in chunks', async function () {
+      const r = hasEvents(networks, CHAIN_ID_0, {
+        contractAddress: erc20Address,
+        event,
+        filter: { from: ['0x0000000000000000000000000000000000000000', '$address'] },
+        fromBlock: deployedAt,
+        toBlock: transferredAt,
+        value: 4n,
+        compareType: 'lt',
+        chunkSize: 1
+      })
+      // the mint and both transfers
+      const result = await r.rule(signer0Addr)
       expect(result.success).to.eq(true)
+      expect(result.details).to.deep.eq({ count: '3' })
     })
 
-    it('should fail if user does not have the NFT token id', async function () {
-      const r = hasNFTTokenId(engineConfig.networks, CHAIN_ID_0, { nftAddress, tokenId })
+    it('should stop counting once the result is decided', async function () {
+      const r = hasEvents(networks, CHAIN_ID_0, {
+        contractAddress: erc20Address,
+        event,
+        filter: { to: '$address' },
+        fromBlock: deployedAt,
+        value: 1n,
+        compareType: 'gte',
+        chunkSize: 1
+      })
       const result = await r.rule(signer2Addr)
-      expect(result.success).to.eq(false)
+      expect(result.success).to.eq(true)
+      expect(result.details).to.deep.eq({ count: '1' })
+    })
+
+    it('should only count events up to the evaluation block', async function () {
+      const r = hasEvents(networks, CHAIN_ID_0, {
+        contractAddress: erc20Address,
+        event,
+        filter: { to: '$address' },
+        fromBlock: deployedAt,
+        value: 1n,
+        compareType: 'eq'
+      })
+      const result = await r.rule(signer2Addr, { blockNumbers: { [CHAIN_ID_0]: transferredAt - 1 } })
+      expect(result.success).to.eq(true)
+    })
+
+    it('should throw for a filter on an argument that is not indexed', function () {
+      expect(() => hasEvents(networks, CHAIN_ID_0, {
+        contractAddress: erc20Address,
+        event,
+        filter: { value: '1' },
+        fromBlock: 0,
+        value: 1n,
+        compareType: 'gte'
+      })).to.throw('`filter` argument value is not indexed')
     })
   })
 
-  describe('addressIsEOA Rule', function () {
-    it('should pass if address is EOA', async function () {
-      const r = addressIsEOA(engineConfig.networks, CHAIN_ID_0, {})
-      const result = await r.rule(signer0Addr)
+  describe('addressInList Rule', function () {
+    it('should match addresses ignoring the checksum', async function () {
+      const r = addressInList({ addresses: [signer1Addr.toLowerCase(), signer2Addr] })
+      expect((await r.rule(signer1Addr)).success).to.eq(true)
+      expect((await r.rule(signer2Addr.toLowerCase())).success).to.eq(true)
+      expect((await r.rule(signer0Addr)).success).to.eq(false)
+    })
+
+    it('should pass for addresses not in a denylist', async function () {
+      const r = addressNotInList({ addresses: [signer1Addr] })
+      expect((await r.rule(signer0Addr)).success).to.eq(true)
+      expect((await r.rule(signer1Addr.toUpperCase().replace('0X', '0x'))).success).to.eq(false)
+    })
+
+    it('should throw for an invalid address', function () {
+      expect(() => addressInList({ addresses: [signer1Addr, '0x1234'] })).to.throw('Invalid address in `addresses`: 0x1234')
+    })
+  })
+
+  describe('merkleMembership Rule', function () {
+    // An OpenZeppelin StandardMerkleTree of three addresses
+    const root = '0xae6afff7b7c4d883d5efd44afa0b98e80317697e8984b4c2de7c54b49c1c4dd4'
+    const member = '0x1111111111111111111111111111111111111111'
+    const proof = [
+      '0x708e7cb9a75ffb24191120fba1c3001faa9078147150c6f2747569edbadee751',
+      '0xbd164a4590db938a0b098da1b25cf37b155f857b38c37c016ad5b8f8fce80192'
+    ]
+
+    it('should pass for a valid proof', async function () {
+      const r = merkleMembership(engineConfig.networks, CHAIN_ID_0, { root })
+      const result = await r.rule(member, { merkleProofs: { [root]: { proof } } })
       expect(result.success).to.eq(true)
     })
 
-    it('should fail if address is not EOA', async function () {
-      const r = addressIsEOA(engineConfig.networks, CHAIN_ID_0, {})
-      const result = await r.rule(contractAddress)
+    it('should fail for a proof of another address', async function () {
+      const r = merkleMembership(engineConfig.networks, CHAIN_ID_0, { root })
+      const result = await r.rule('0x2222222222222222222222222222222222222222', { merkleProofs: { [root]: { proof } } })
       expect(result.success).to.eq(false)
+      expect(result.error).to.eq(undefined)
     })
-  })
 
-  describe('addressIsContract Rule', function () {
-    it('should pass if address is a contract', async function () {
-      const r = addressIsContract(engineConfig.networks, CHAIN_ID_0, {})
-      const result = await r.rule(contractAddress)
+    it('should verify leaves with other values', async function () {
+      // A tree of [address, uint256] allocations
+      const allocationsRoot = '0xe5d8331a8d36dfbdccf8d81463289c0c4840a552576a5af20ef2a0c6e6f534a7'
+      const r = merkleMembership(engineConfig.networks, CHAIN_ID_0, { root: allocationsRoot, leafEncoding: ['address', 'uint256'] })
+      const allocationProof = ['0xef4b786d292a8f7bf2c386b2c937f6929416de654d5360518f09e324470b66e8']
+
+      const valid = await r.rule(member, { merkleProofs: { [allocationsRoot]: { proof: allocationProof, values: [member, '100'] } } })
+      expect(valid.success).to.eq(true)
+
+      const wrongAmount = await r.rule(member, { merkleProofs: { [allocationsRoot]: { proof: allocationProof, values: [member, '1000'] } } })
+      expect(wrongAmount.success).to.eq(false)
+    })
+
+    it('should check the root against a contract', async function () {
+      const factory = new ethers.ContractFactory(merkleDistributorArtifact.abi, merkleDistributorArtifact.bytecode.object, signer0)
+      const contract = await factory.deploy(root)
+      await contract.waitForDeployment()
+      const rootAddress = await contract.getAddress()
+
+      const r = merkleMembership(engineConfig.networks, CHAIN_ID_0, { root, rootAddress })
+      const result = await r.rule(member, { merkleProofs: { [root]: { proof } } })
       expect(result.success).to.eq(true)
+
+      const otherRoot = ethers.ZeroHash.replace(/0$/, '1')
+      const mismatch = merkleMembership(engineConfig.networks, CHAIN_ID_0, { root: otherRoot, rootAddress })
+      const mismatchResult = await mismatch.rule(member, { merkleProofs: { [otherRoot]: { proof } } })
+      expect(mismatchResult.success).to.eq(false)
+      expect(mismatchResult.error).to.eq(`\`root\` does not match merkleRoot() of ${rootAddress}`)
     })
 
-    it('should fail if address is not a contract', async function () {
-      const r = addressIsContract(engineConfig.networks, CHAIN_ID_0, {})
-      const result = await r.rule(signer0Addr)
+    it('should return an error without a proof', async function () {
+      const r = merkleMembership(engineConfig.networks, CHAIN_ID_0, { root })
+      const result = await r.rule(member)
       expect(result.success).to.eq(false)
+      expect(result.error).to.eq(`No proof for root ${root} in the \`merkleProofs\` evaluate option`)
     })
   })
 
-  describe('erc20Balance Rule', function () {
-    let erc20Address: string
-    let erc20Contract: any
+  describe('Proxy and Storage Rules', function () {
+    const implementationSlot = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc'
+    let implementationAddress: string
+    let erc1967ProxyAddress: string
+    let beaconProxyAddress: string
+    let eip1822ProxyAddress: string
+
+    async function deploy (artifact: { abi: any, bytecode: { object: string } }, ...args: any[]): Promise<string> {
+      const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode.object, signer0)
+      const contract = await factory.deploy(...args)
+      await contract.waitForDeployment()
+      return contract.getAddress()
+    }
 
     before(async function () {
-      const factory = new ethers.ContractFactory(erc20Artifact.abi, erc20Artifact.bytecode.object, signer0)
-      erc20Contract = await factory.deploy()
-      await erc20Contract.waitForDeployment()
-
-      erc20Address = await erc20Contract.getAddress()
+      implementationAddress = await deploy(implementationArtifact)
+      erc1967ProxyAddress = await deploy(erc1967ProxyArtifact, implementationAddress)
+      beaconProxyAddress = await deploy(beaconProxyArtifact, await deploy(beaconArtifact, implementationAddress))
+      eip1822ProxyAddress = await deploy(eip1822ProxyArtifact, implementationAddress)
+    })
 
-      // Check the deployer’s balance right after deployment
-      await erc20Contract.balanceOf(signer0Addr)
-      const erc20FromSigner0 = erc20Contract.connect(signer0)
+    it('should compare a storage slot', async function () {
+      const r = storageSlot(engineConfig.networks, CHAIN_ID_0, { slot: implementationSlot, value: implementationAddress, compareType: 'eq' })
+      const result = await r.rule(erc1967ProxyAddress)
+      expect(result.success).to.eq(true)
 
-      const tx = await erc20FromSigner0.transfer(signer1Addr, 100n * 100000000000000000n)
-      await tx.wait()
+      const unset = await r.rule(contractAddress)
+      expect(unset.success).to.eq(false)
+      expect(unset.details).to.deep.eq({ value: ethers.ZeroHash })
     })
 
-    it('should pass if user has the required token balance', async function () {
-      // signer1 has 100 tokens
-      const ruleInstance = erc20Balance(engineConfig.networks, CHAIN_ID_0, {
-        tokenAddress: erc20Address,
-        value: 50n * 100000000000000000n,
-        compareType: 'gte'
-      })
-      const result = await ruleInstance.rule(signer1Addr)
+    it('should read the slot of a fixed contract', async function () {
+      const r = storageSlot(engineConfig.networks, CHAIN_ID_0, { slot: implementationSlot, value: 0n, compareType: 'gt', contractAddress: erc1967ProxyAddress })
+      const result = await r.rule(signer1Addr)
       expect(result.success).to.eq(true)
+      expect(r.definition.params).to.deep.eq({ slot: implementationSlot, value: '0', compareType: 'gt', contractAddress: erc1967ProxyAddress })
     })
 
-    it('should fail if user does not have the required token balance', async function () {
-      // signer1 has 100 tokens, threshold is 101
-      const ruleInstance = erc20Balance(engineConfig.networks, CHAIN_ID_0, {
-        tokenAddress: erc20Address,
-        value: 101n * 100000000000000000n,
-        compareType: 'gte'
-      })
-      const result = await ruleInstance.rule(signer1Addr)
+    it('should find the implementation of each kind of proxy', async function () {
+      const r = proxyImplementation(engineConfig.networks, CHAIN_ID_0, { implementations: [implementationAddress.toLowerCase()] })
+
+      for (const [proxyAddress, kind] of [[erc1967ProxyAddress, 'eip1967'], [beaconProxyAddress, 'beacon'], [eip1822ProxyAddress, 'eip1822']]) {
+        const result = await r.rule(proxyAddress)
+        expect(result.success).to.eq(true)
+        expect(result.details).to.deep.eq({ kind, implementation: implementationAddress })
+      }
+    })
+
+    it('should fail for an implementation not in the list', async function () {
+      const r = proxyImplementation(engineConfig.networks, CHAIN_ID_0, { implementations: [signer1Addr] })
+      const result = await r.rule(erc1967ProxyAddress)
       expect(result.success).to.eq(false)
       expect(result.error).to.eq(undefined)
     })
 
-    it('should pass exactly at the threshold', async function () {
-      // signer1 has exactly 100 tokens, threshold is 100
-      const ruleInstance = erc20Balance(engineConfig.networks, CHAIN_ID_0, {
-        tokenAddress: erc20Address,
-        value: 100n * 100000000000000000n,
-        compareType: 'eq'
-      })
-      const result = await ruleInstance.rule(signer1Addr)
+    it('should fail for a contract that is not a proxy', async function () {
+      const r = proxyImplementation(engineConfig.networks, CHAIN_ID_0, {})
+      const result = await r.rule(contractAddress)
+      expect(result.success).to.eq(false)
+      expect(result.details).to.eq(undefined)
+    })
+
+    it('should match the code hash', async function () {
+      const hash = ethers.keccak256(await provider.getCode(contractAddress))
+      const r = codeHash(engineConfig.networks, CHAIN_ID_0, { codeHashes: [hash] })
+
+      const result = await r.rule(contractAddress)
       expect(result.success).to.eq(true)
+      expect(result.details).to.deep.eq({ codeHash: hash })
+
+      expect((await r.rule(erc1967ProxyAddress)).success).to.eq(false)
+      expect((await r.rule(signer1Addr)).success).to.eq(false)
+    })
+
+    it('should throw for an invalid code hash', function () {
+      expect(() => codeHash(engineConfig.networks, CHAIN_ID_0, { codeHashes: ['0x1234'] })).to.throw('Invalid hash in `codeHashes`: 0x1234')
     })
   })
 
@@ -735,6 +2073,108 @@ describe('createRulesFromJson()', function () {
     expect(rules[8].definition.params.abi).to.deep.eq(['test'])
   })
 
+  it('should round-trip the units of balance params', function () {
+    const params = { tokenAddress: '0x123', value: '100.5', compareType: 'gte', units: 'token' }
+    const [rule] = createRulesFromDefinitions(networks, [{ type: 'erc20Balance', chainId: CHAIN_ID_0, params }])
+    expect(rule.definition.params).to.deep.equal(params)
+  })
+
+  it('should round-trip aggregateBalance legs without a chainId', function () {
+    const definition: RuleDefinition = {
+      type: 'aggregateBalance',
+      params: {
+        legs: [{ chainId: CHAIN_ID_0, tokenAddress: '0x123', decimals: 6 }, { chainId: CHAIN_ID_0 }],
+        value: '1000',
+        compareType: 'gte',
+        units: 'token'
+      }
+    }
+    const [rule] = createRulesFromDefinitions(networks, [definition])
+    expect(rule.definition).to.deep.equal(definition)
+  })
+
+  it('should round-trip usdValue assets', function () {
+    const params = {
+      assets: [{ feedAddress: '0x456' }, { tokenAddress: '0x123', feedAddress: '0x789', maxStaleness: 86400 }],
+      value: '500',
+      compareType: 'gte',
+      maxStaleness: 3600
+    }
+    const [rule] = createRulesFromDefinitions(networks, [{ type: 'usdValue', chainId: CHAIN_ID_0, params }])
+    expect(rule.definition.params).to.deep.equal(params)
+  })
+
+  it('should round-trip the vaultPosition wallet balance option', function () {
+    const params = { vaultAddress: '0x123', value: '100', compareType: 'gte', units: 'token', includeWalletBalance: true }
+    const [rule] = createRulesFromDefinitions(networks, [{ type: 'vaultPosition', chainId: CHAIN_ID_0, params }])
+    expect(rule.definition.params).to.deep.equal(params)
+  })
+
+  it('should create safeOwner rules with a nested rule', function () {
+    const definition: RuleDefinition = {
+      type: 'safeOwner',
+      chainId: CHAIN_ID_0,
+      params: {
+        safeAddress: '0x123',
+        rule: { type: 'hasNFT', chainId: CHAIN_ID_0, params: { nftAddress: '0x456' } }
+      }
+    }
+    const [rule] = createRulesFromDefinitions(networks, [definition])
+    expect(rule.definition).to.deep.equal(definition)
+  })
+
+  it('should create list rules without a chainId', async function () {
+    const definitions: RuleDefinition[] = [
+      { type: 'addressInList', params: { addresses: ['0x1111111111111111111111111111111111111111'] } },
+      { type: 'addressNotInList', params: { addresses: ['0x2222222222222222222222222222222222222222'] } }
+    ]
+    const rules = createRulesFromDefinitions(networks, definitions)
+    expect(rules.map((r) => r.definition)).to.deep.equal(definitions)
+    expect((await rules[0].rule('0x1111111111111111111111111111111111111111')).success).to.eq(true)
+  })
+
+  it('should round-trip the hasNFT count and token id params', function () {
+    const params = {
+      nftAddress: '0x123',
+      value: '2',
+      compareType: 'gte',
+      tokenIdRange: { from: '100', to: '199' }
+    }
+    const [rule] = createRulesFromDefinitions(networks, [{ type: 'hasNFT', chainId: CHAIN_ID_0, params }])
+    expect(rule.definition.params).to.deep.equal(params)
+
+    const [withTokenIds] = createRulesFromDefinitions(networks, [{ type: 'hasNFT', chainId: CHAIN_ID_0, params: { nftAddress: '0x123', tokenIds: ['1', '2'] } }])
+    expect(withTokenIds.definition.params).to.deep.equal({ nftAddress: '0x123', tokenIds: ['1', '2'] })
+  })
+
+  it('should create nested composite rules from definitions', function () {
+    const definitions: RuleDefinition[] = [
+      {
+        type: 'all',
+        params: {
+          rules: [
+            { type: 'addressIsEOA', chainId: CHAIN_ID_0, params: {} },
+            { type: 'not', params: { rule: { type: 'hasNFT', chainId: CHAIN_ID_0, params: { nftAddress: '0x123' } } } }
+          ]
+        }
+      }
+    ]
+
+    const rules: BuiltRule[] = createRulesFromDefinitions(networks, definitions)
+    expect(rules).to.have.lengthOf(1)
+    expect(rules[0].definition.type).to.eq('all')
+    expect(rules[0].definition.chainId).to.eq(undefined)
+    expect(rules[0].definition.params.rules).to.have.lengthOf(2)
+    expect(rules[0].definition.params.rules[1].params.rule.type).to.eq('hasNFT')
+  })
+
+  it('should throw an error for unknown nested rule types', function () {
+    const definitions: RuleDefinition[] = [
+      { type: 'any', params: { rules: [{ type: 'nonExistentRule', chainId: CHAIN_ID_0, params: {} }] } }
+    ]
+    expect(() => createRulesFromDefinitions(networks, definitions)).to.throw(/Unknown rule type/)
+  })
+
   it('should throw an error for unknown rule types', function () {
     const definitions: RuleDefinition[] = [
       { type: 'nonExistentRule', chainId: CHAIN_ID_0, params: { someParam: '123' } }
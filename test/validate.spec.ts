@@ -41,6 +41,177 @@ describe('Zod Validator for Rules', () => {
       expect(() => rulesDefinitionArraySchema.parse([validERC20BalanceRule])).to.not.throw()
     })
 
+    it('should validate an accountAge rule', () => {
+      const validAccountAgeRule = {
+        type: 'accountAge',
+        chainId: '1',
+        params: {
+          value: '2592000',
+          compareType: 'gte',
+          unit: 'seconds'
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([validAccountAgeRule])).to.not.throw()
+    })
+
+    it('should validate signedMessage rules', () => {
+      const rules = [
+        { type: 'signedMessage', chainId: '1', params: { message: 'I own this address' } },
+        {
+          type: 'signedMessage',
+          chainId: '1',
+          params: {
+            typedData: {
+              domain: { name: 'Gate', version: '1', chainId: 1 },
+              types: { Login: [{ name: 'nonce', type: 'uint256' }] },
+              message: { nonce: '1' }
+            }
+          }
+        }
+      ]
+      expect(() => rulesDefinitionArraySchema.parse(rules)).to.not.throw()
+    })
+
+    it('should validate a hasEvents rule', () => {
+      const validHasEventsRule = {
+        type: 'hasEvents',
+        chainId: '1',
+        params: {
+          contractAddress: '0x1234567890abcdef1234567890abcdef12345678',
+          event: 'event Deposit(address indexed account, uint256 amount)',
+          filter: { account: '$address' },
+          fromBlock: 19000000,
+          value: '2',
+          compareType: 'gte'
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([validHasEventsRule])).to.not.throw()
+    })
+
+    it('should validate list and merkleMembership rules', () => {
+      const rules = [
+        { type: 'addressInList', params: { addresses: ['0x1234567890abcdef1234567890abcdef12345678'] } },
+        { type: 'addressNotInList', params: { addresses: [] } },
+        {
+          type: 'merkleMembership',
+          chainId: '1',
+          params: {
+            root: '0xae6afff7b7c4d883d5efd44afa0b98e80317697e8984b4c2de7c54b49c1c4dd4',
+            leafEncoding: ['address', 'uint256'],
+            rootAddress: '0x1234567890abcdef1234567890abcdef12345678'
+          }
+        }
+      ]
+      expect(() => rulesDefinitionArraySchema.parse(rules)).to.not.throw()
+    })
+
+    it('should validate storage and proxy rules', () => {
+      const rules = [
+        { type: 'storageSlot', chainId: '1', params: { slot: '0', value: '1', compareType: 'eq' } },
+        { type: 'proxyImplementation', chainId: '1', params: { implementations: ['0x1234567890abcdef1234567890abcdef12345678'] } },
+        { type: 'codeHash', chainId: '1', params: { codeHashes: ['0xae6afff7b7c4d883d5efd44afa0b98e80317697e8984b4c2de7c54b49c1c4dd4'] } }
+      ]
+      expect(() => rulesDefinitionArraySchema.parse(rules)).to.not.throw()
+    })
+
+    it('should validate EIP-7702 aware rules', () => {
+      const rules = [
+        { type: 'addressIsEOA', chainId: '1', params: { allowDelegated: false } },
+        { type: 'delegatedTo', chainId: '1', params: { implementations: ['0x1234567890abcdef1234567890abcdef12345678'] } },
+        { type: 'delegatedTo', chainId: '1', params: {} }
+      ]
+      expect(() => rulesDefinitionArraySchema.parse(rules)).to.not.throw()
+    })
+
+    it('should validate an aggregateBalance rule', () => {
+      const validAggregateBalanceRule = {
+        type: 'aggregateBalance',
+        params: {
+          legs: [
+            { chainId: '1', tokenAddress: '0x1234567890abcdef1234567890abcdef12345678' },
+            { chainId: '10', tokenAddress: '0xabcdefabcdefabcdefabcdefabcdefabcdef', decimals: 6 }
+          ],
+          value: '1000',
+          compareType: 'gte',
+          units: 'token'
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([validAggregateBalanceRule])).to.not.throw()
+    })
+
+    it('should validate a usdValue rule', () => {
+      const validUsdValueRule = {
+        type: 'usdValue',
+        chainId: '1',
+        params: {
+          assets: [
+            { feedAddress: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419' },
+            { tokenAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', feedAddress: '0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6', maxStaleness: 86400 }
+          ],
+          value: '500',
+          compareType: 'gte',
+          maxStaleness: 3600
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([validUsdValueRule])).to.not.throw()
+    })
+
+    it('should validate a vaultPosition rule', () => {
+      const validVaultPositionRule = {
+        type: 'vaultPosition',
+        chainId: '1',
+        params: {
+          vaultAddress: '0x1234567890abcdef1234567890abcdef12345678',
+          value: '100.5',
+          compareType: 'gte',
+          units: 'token',
+          includeWalletBalance: true
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([validVaultPositionRule])).to.not.throw()
+    })
+
+    it('should validate governance rules', () => {
+      const rules = [
+        { type: 'votingPower', chainId: '1', params: { tokenAddress: '0x1234567890abcdef1234567890abcdef12345678', value: '1000', compareType: 'gte', units: 'token', timepoint: 19000000 } },
+        { type: 'delegatesTo', chainId: '1', params: { tokenAddress: '0x1234567890abcdef1234567890abcdef12345678', delegates: ['0xabcdefabcdefabcdefabcdefabcdefabcdefabcd'] } },
+        { type: 'delegatesTo', chainId: '1', params: { tokenAddress: '0x1234567890abcdef1234567890abcdef12345678' } }
+      ]
+      expect(() => rulesDefinitionArraySchema.parse(rules)).to.not.throw()
+    })
+
+    it('should validate Safe rules', () => {
+      const rules = [
+        { type: 'safeThreshold', chainId: '1', params: { value: '2', compareType: 'gte' } },
+        {
+          type: 'safeOwner',
+          chainId: '1',
+          params: {
+            safeAddress: '0x1234567890abcdef1234567890abcdef12345678',
+            rule: { type: 'hasNFT', chainId: '1', params: { nftAddress: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' } }
+          }
+        }
+      ]
+      expect(() => rulesDefinitionArraySchema.parse(rules)).to.not.throw()
+    })
+
+    it('should validate allowance rules', () => {
+      const rules = [
+        { type: 'erc20Allowance', chainId: '1', params: { tokenAddress: '0xabcdefabcdefabcdefabcdefabcdefabcdef', spender: '0x1234567890abcdef1234567890abcdef12345678', value: '1000', compareType: 'gte' } },
+        { type: 'permit2Allowance', chainId: '1', params: { tokenAddress: '0xabcdefabcdefabcdefabcdefabcdefabcdef', spender: '0x1234567890abcdef1234567890abcdef12345678', value: '1.5', compareType: 'gte', units: 'token' } }
+      ]
+      expect(() => rulesDefinitionArraySchema.parse(rules)).to.not.throw()
+    })
+
+    it('should validate balance rules with human units', () => {
+      const rules = [
+        { type: 'walletBalance', chainId: '1', params: { value: '1.5', compareType: 'gte', units: 'ether' } },
+        { type: 'contractBalance', chainId: '1', params: { contractAddress: '0x1234567890abcdef1234567890abcdef12345678', value: '20', compareType: 'gt', units: 'gwei' } },
+        { type: 'erc20Balance', chainId: '1', params: { tokenAddress: '0xabcdefabcdefabcdefabcdefabcdefabcdef', value: '100.5', compareType: 'gte', units: 'token' } }
+      ]
+      expect(() => rulesDefinitionArraySchema.parse(rules)).to.not.throw()
+    })
+
     it('should validate a numTransactions rule', () => {
       const validNumTransactionsRule = {
         type: 'numTransactions',
@@ -64,6 +235,20 @@ describe('Zod Validator for Rules', () => {
       expect(() => rulesDefinitionArraySchema.parse([validHasNFTRule])).to.not.throw()
     })
 
+    it('should validate a hasNFT rule with a count and token id range', () => {
+      const validHasNFTRule = {
+        type: 'hasNFT',
+        chainId: '1',
+        params: {
+          nftAddress: '0xabcdefabcdefabcdefabcdefabcdefabcdef',
+          value: '3',
+          compareType: 'gte',
+          tokenIdRange: { from: '1', to: '100' }
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([validHasNFTRule])).to.not.throw()
+    })
+
     it('should validate a hasNFTTokenId rule', () => {
       const validHasNFTTokenIdRule = {
         type: 'hasNFTTokenId',
@@ -108,6 +293,73 @@ describe('Zod Validator for Rules', () => {
       }
       expect(() => rulesDefinitionArraySchema.parse([validCallContractRule])).to.not.throw()
     })
+
+    it('should validate an erc1155Balance rule', () => {
+      const validErc1155BalanceRule = {
+        type: 'erc1155Balance',
+        chainId: '1',
+        params: {
+          tokenAddress: '0x1234567890abcdef1234567890abcdef12345678',
+          tokenId: '1',
+          value: '10',
+          compareType: 'gte'
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([validErc1155BalanceRule])).to.not.throw()
+    })
+
+    it('should validate an erc1155BalanceOfAny rule', () => {
+      const validErc1155BalanceOfAnyRule = {
+        type: 'erc1155BalanceOfAny',
+        chainId: '1',
+        params: {
+          tokenAddress: '0x1234567890abcdef1234567890abcdef12345678',
+          tokenIds: ['1', '2'],
+          value: '1',
+          compareType: 'gte'
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([validErc1155BalanceOfAnyRule])).to.not.throw()
+    })
+
+    it('should validate a rule with a weight and priority', () => {
+      const validWeightedRule = {
+        type: 'addressIsEOA',
+        chainId: '1',
+        params: {},
+        weight: 10,
+        priority: 1
+      }
+      expect(() => rulesDefinitionArraySchema.parse([validWeightedRule])).to.not.throw()
+    })
+
+    it('should validate nested composite rules', () => {
+      const validCompositeRule = {
+        type: 'any',
+        params: {
+          rules: [
+            {
+              type: 'hasNFT',
+              chainId: '1',
+              params: {
+                nftAddress: '0xabcdefabcdefabcdefabcdefabcdefabcdef'
+              }
+            },
+            {
+              type: 'atLeast',
+              params: {
+                count: 1,
+                rules: [
+                  { type: 'addressIsEOA', chainId: '1', params: {} },
+                  { type: 'not', params: { rule: { type: 'addressIsContract', chainId: '2', params: {} } } }
+                ]
+              }
+            }
+          ]
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([validCompositeRule])).to.not.throw()
+    })
   })
 
   describe('Invalid Definitions', () => {
@@ -157,6 +409,55 @@ describe('Zod Validator for Rules', () => {
       expect(() => rulesDefinitionArraySchema.parse([invalidCompareTypeRule])).to.throw()
     })
 
+    it('should fail when an allowance rule has no spender', () => {
+      const missingSpenderRule = {
+        type: 'erc20Allowance',
+        chainId: '1',
+        params: {
+          tokenAddress: '0xabcdefabcdefabcdefabcdefabcdefabcdef',
+          value: '1',
+          compareType: 'gte'
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([missingSpenderRule])).to.throw()
+    })
+
+    it('should fail when the accountAge "unit" is invalid', () => {
+      const invalidUnitRule = {
+        type: 'accountAge',
+        chainId: '1',
+        params: {
+          value: '30',
+          compareType: 'gte',
+          unit: 'days'
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([invalidUnitRule])).to.throw()
+    })
+
+    it('should fail when a signedMessage rule has no message', () => {
+      const missingMessageRule = {
+        type: 'signedMessage',
+        chainId: '1',
+        params: {}
+      }
+      expect(() => rulesDefinitionArraySchema.parse([missingMessageRule])).to.throw()
+    })
+
+    it('should fail when "units" is invalid', () => {
+      const invalidUnitsRule = {
+        type: 'erc20Balance',
+        chainId: '1',
+        params: {
+          tokenAddress: '0xabcdefabcdefabcdefabcdefabcdefabcdef',
+          value: '1',
+          compareType: 'gte',
+          units: 'ether' // only raw or token
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([invalidUnitsRule])).to.throw()
+    })
+
     it('should fail for an unknown rule type', () => {
       const unknownTypeRule = {
         type: 'unknownRule',
@@ -178,5 +479,113 @@ describe('Zod Validator for Rules', () => {
       }
       expect(() => rulesDefinitionArraySchema.parse([nonStringValueRule])).to.throw()
     })
+
+    it('should fail when a weight is negative', () => {
+      const negativeWeightRule = {
+        type: 'addressIsEOA',
+        chainId: '1',
+        params: {},
+        weight: -1
+      }
+      expect(() => rulesDefinitionArraySchema.parse([negativeWeightRule])).to.throw()
+    })
+
+    it('should fail when an erc1155BalanceOfAny rule has no token ids', () => {
+      const emptyTokenIdsRule = {
+        type: 'erc1155BalanceOfAny',
+        chainId: '1',
+        params: {
+          tokenAddress: '0x1234567890abcdef1234567890abcdef12345678',
+          tokenIds: [],
+          value: '1',
+          compareType: 'gte'
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([emptyTokenIdsRule])).to.throw()
+    })
+
+    it('should fail when an aggregateBalance rule has no legs', () => {
+      const emptyLegsRule = {
+        type: 'aggregateBalance',
+        params: {
+          legs: [],
+          value: '1',
+          compareType: 'gte'
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([emptyLegsRule])).to.throw()
+    })
+
+    it('should fail when a usdValue asset has no feed', () => {
+      const missingFeedRule = {
+        type: 'usdValue',
+        chainId: '1',
+        params: {
+          assets: [{ tokenAddress: '0x1234567890abcdef1234567890abcdef12345678' }],
+          value: '500',
+          compareType: 'gte'
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([missingFeedRule])).to.throw()
+    })
+
+    it('should fail when a votingPower timepoint is not a number', () => {
+      const invalidTimepointRule = {
+        type: 'votingPower',
+        chainId: '1',
+        params: {
+          tokenAddress: '0x1234567890abcdef1234567890abcdef12345678',
+          value: '1000',
+          compareType: 'gte',
+          timepoint: 'latest'
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([invalidTimepointRule])).to.throw()
+    })
+
+    it('should fail when a safeOwner nested rule is invalid', () => {
+      const invalidNestedRule = {
+        type: 'safeOwner',
+        chainId: '1',
+        params: {
+          safeAddress: '0x1234567890abcdef1234567890abcdef12345678',
+          rule: { type: 'walletBalance', chainId: '1', params: { value: '1' } }
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([invalidNestedRule])).to.throw()
+    })
+
+    it('should fail when a composite rule has no nested rules', () => {
+      const emptyCompositeRule = {
+        type: 'all',
+        params: {
+          rules: []
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([emptyCompositeRule])).to.throw()
+    })
+
+    it('should fail when an atLeast count is larger than the number of rules', () => {
+      const tooHighCountRule = {
+        type: 'atLeast',
+        params: {
+          count: 3,
+          rules: [{ type: 'addressIsEOA', chainId: '1', params: {} }]
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([tooHighCountRule])).to.throw('`count` is required and must be between 1 and the number of rules')
+    })
+
+    it('should fail when a nested rule is invalid', () => {
+      const invalidNestedRule = {
+        type: 'any',
+        params: {
+          rules: [
+            { type: 'walletBalance', chainId: '1', params: { compareType: 'gte' } }
+          ]
+        }
+      }
+      expect(() => rulesDefinitionArraySchema.parse([invalidNestedRule])).to.throw()
+    })
   })
 })